@@ -13,6 +13,9 @@ const require = createRequire(import.meta.url);
 const args = process.argv.slice(2);
 const httpMode = args.includes('--http') || args.includes('-h');
 
+// Remaining arguments (e.g. --read-only, --allow, --deny) are passed to the server
+const serverArgs = args.filter(arg => arg !== '--http' && arg !== '-h');
+
 console.log(`Starting Starknet MCP Server in ${httpMode ? 'HTTP' : 'stdio'} mode...`);
 
 // Determine which file to execute
@@ -23,7 +26,7 @@ try {
   require.resolve(scriptPath);
   
   // Execute the server
-  const server = spawn('node', [scriptPath], {
+  const server = spawn('node', [scriptPath, ...serverArgs], {
     stdio: 'inherit',
     shell: false
   });
@@ -1,12 +1,16 @@
 /**
  * Defines supported Starknet networks with their RPC URLs
  */
-import { constants } from 'starknet';
+import { constants, num, shortString, RpcProvider } from 'starknet';
+import { getConfig, type NetworkFileConfig } from './config.js';
 
 export type NetworkConfig = {
   name: string;
   chainId: string;
+  // Primary RPC URL (first entry of rpcUrls)
   rpcUrl: string;
+  // All RPC URLs in the endpoint pool, in order of preference
+  rpcUrls: string[];
 };
 
 // Network configurations
@@ -14,30 +18,44 @@ const networks: Record<string, NetworkConfig> = {
   mainnet: {
     name: 'mainnet',
     chainId: constants.StarknetChainId.SN_MAIN,
-    rpcUrl: 'https://starknet-mainnet.public.blastapi.io'
+    rpcUrl: 'https://starknet-mainnet.public.blastapi.io',
+    rpcUrls: [
+      'https://starknet-mainnet.public.blastapi.io',
+      'https://free-rpc.nethermind.io/mainnet-juno/v0_7'
+    ]
   },
   sepolia: {
     name: 'sepolia',
     chainId: constants.StarknetChainId.SN_SEPOLIA,
-    rpcUrl: 'https://starknet-sepolia.public.blastapi.io'
+    rpcUrl: 'https://starknet-sepolia.public.blastapi.io',
+    rpcUrls: [
+      'https://starknet-sepolia.public.blastapi.io',
+      'https://free-rpc.nethermind.io/sepolia-juno/v0_7'
+    ]
   }
 };
 
+// Networks defined or overridden by the config file or environment
+const userDefinedNetworks = new Set<string>();
+
+// Matches STARKNET_<NAME>_RPC_URL environment variables
+const RPC_URL_ENV_PATTERN = /^STARKNET_([A-Z0-9_]+)_RPC_URL$/;
+
 // Default network to use if none specified
 export const DEFAULT_NETWORK = 'mainnet';
 
 /**
  * Get the network configuration for a given network name
- * @param networkName The network name (mainnet, sepolia)
+ * @param networkName The network name (mainnet, sepolia or a user-defined network)
  * @returns The network configuration
  */
 export function getNetwork(networkName: string = DEFAULT_NETWORK): NetworkConfig {
   const network = networks[networkName.toLowerCase()];
-  
+
   if (!network) {
     throw new Error(`Network ${networkName} not supported. Available networks: ${Object.keys(networks).join(', ')}`);
   }
-  
+
   return network;
 }
 
@@ -50,6 +68,15 @@ export function getRpcUrl(networkName: string = DEFAULT_NETWORK): string {
   return getNetwork(networkName).rpcUrl;
 }
 
+/**
+ * Get all RPC URLs in the endpoint pool for a given network
+ * @param networkName The network name
+ * @returns The RPC URLs, primary first
+ */
+export function getRpcUrls(networkName: string = DEFAULT_NETWORK): string[] {
+  return getNetwork(networkName).rpcUrls;
+}
+
 /**
  * Get the chain ID for a given network
  * @param networkName The network name
@@ -65,4 +92,94 @@ export function getChainId(networkName: string = DEFAULT_NETWORK): string {
  */
 export function getSupportedNetworks(): string[] {
   return Object.keys(networks);
-} 
\ No newline at end of file
+}
+
+/**
+ * Normalize a chain ID given either as hex or as a short string (e.g. SN_SEPOLIA)
+ * @param chainId The chain ID to normalize
+ * @returns The chain ID as a hex string
+ */
+function normalizeChainId(chainId: string): string {
+  return num.isHex(chainId) ? num.toHex(chainId) : shortString.encodeShortString(chainId);
+}
+
+/**
+ * Add or override a network from user configuration
+ * @param name The network name
+ * @param config The RPC URL(s) and optional chain ID
+ */
+function defineNetwork(name: string, config: NetworkFileConfig) {
+  const key = name.toLowerCase();
+  const rpcUrls = [
+    ...(config.rpcUrl ? [config.rpcUrl] : []),
+    ...(config.rpcUrls ?? [])
+  ].filter((url, index, urls) => urls.indexOf(url) === index);
+
+  if (rpcUrls.length === 0) {
+    throw new Error(`Network ${name} is missing an rpcUrl`);
+  }
+
+  const existing = networks[key];
+  const chainId = config.chainId ? normalizeChainId(config.chainId) : existing?.chainId ?? '';
+
+  networks[key] = { name: key, chainId, rpcUrl: rpcUrls[0], rpcUrls };
+  userDefinedNetworks.add(key);
+}
+
+/**
+ * Merge networks from the config file and STARKNET_<NAME>_RPC_URL environment variables
+ * Environment variables take precedence over the config file and may hold a
+ * comma-separated list of URLs to form an endpoint pool.
+ */
+function loadUserNetworks() {
+  const { networks: fileNetworks = {} } = getConfig();
+
+  for (const [name, config] of Object.entries(fileNetworks)) {
+    defineNetwork(name, config);
+  }
+
+  for (const [key, value] of Object.entries(process.env)) {
+    const match = RPC_URL_ENV_PATTERN.exec(key);
+    if (!match || !value) continue;
+
+    defineNetwork(match[1], {
+      rpcUrls: value.split(',').map(url => url.trim()).filter(Boolean),
+      chainId: process.env[`STARKNET_${match[1]}_CHAIN_ID`]
+    });
+  }
+}
+
+/**
+ * Load user-defined networks and fetch/verify their chain IDs against every RPC endpoint
+ * Networks without a configured chain ID take the one reported by their endpoints;
+ * a mismatch between the configured and reported chain ID is a startup error.
+ */
+export async function initializeNetworks(): Promise<void> {
+  loadUserNetworks();
+
+  await Promise.all(Array.from(userDefinedNetworks).map(async (name) => {
+    const network = networks[name];
+
+    for (const rpcUrl of network.rpcUrls) {
+      let reportedChainId: string;
+      try {
+        reportedChainId = await new RpcProvider({ nodeUrl: rpcUrl }).getChainId();
+      } catch (error) {
+        console.error(`Warning: could not verify chain ID for network ${name} (${rpcUrl}):`, (error as Error).message);
+        continue;
+      }
+
+      if (network.chainId && num.toBigInt(network.chainId) !== num.toBigInt(reportedChainId)) {
+        throw new Error(
+          `Chain ID mismatch for network ${name}: expected ${network.chainId}, but ${rpcUrl} reports ${reportedChainId}`
+        );
+      }
+
+      network.chainId = num.toHex(reportedChainId);
+    }
+
+    if (!network.chainId) {
+      throw new Error(`Could not fetch chain ID for network ${name}: none of its RPC endpoints responded`);
+    }
+  }));
+}
@@ -0,0 +1,197 @@
+/**
+ * Loads the optional server configuration file (JSON or YAML)
+ */
+import { existsSync, readFileSync } from 'fs';
+import { dirname, extname, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// Environment variable pointing to the configuration file
+export const CONFIG_PATH_ENV = 'STARKNET_MCP_CONFIG';
+
+/**
+ * A network entry as it appears in the configuration file
+ */
+export type NetworkFileConfig = {
+  rpcUrl?: string;
+  rpcUrls?: string[];
+  chainId?: string;
+};
+
+/**
+ * RPC endpoint pool tuning
+ */
+export type RpcFileConfig = {
+  timeoutMs?: number;
+  retries?: number;
+  healthCheckIntervalMs?: number;
+};
+
+/**
+ * Response cache tuning
+ */
+export type CacheFileConfig = {
+  enabled?: boolean;
+  maxEntries?: number;
+  headTtlMs?: number;
+};
+
+/**
+ * ABI store persistence
+ */
+export type AbiCacheFileConfig = {
+  dir?: string;
+};
+
+/**
+ * A named account unlocked from an encrypted keystore
+ */
+export type AccountFileConfig = {
+  keystore: string;
+  address?: string;
+  accountFile?: string;
+  passwordEnv?: string;
+  networks?: string[];
+};
+
+/**
+ * Where accounts created by the server are stored
+ */
+export type AccountStoreFileConfig = {
+  dir?: string;
+  passwordEnv?: string;
+};
+
+/**
+ * Which tools, resources and prompts the server exposes
+ */
+export type PolicyFileConfig = {
+  readOnly?: boolean;
+  allow?: string[];
+  deny?: string[];
+};
+
+/**
+ * A spending limit; amounts are in human-readable token units
+ */
+export type SpendingLimitFileConfig = {
+  account?: string;
+  token?: string;
+  network?: string;
+  perTransaction?: string;
+  daily?: string;
+};
+
+/**
+ * A contract the execute tools may call, optionally restricted to some entrypoints
+ */
+export type ContractRuleFileConfig = {
+  contract: string;
+  entrypoints?: string[];
+};
+
+/**
+ * Guardrails applied before a transaction is signed
+ */
+export type GuardrailsFileConfig = {
+  stateFile?: string;
+  limits?: SpendingLimitFileConfig[];
+  allowUnlimitedApprovals?: boolean; // Allow unlimited approvals of tokens that have a spending limit
+  recipients?: {
+    allow?: string[];
+    deny?: string[];
+  };
+  contracts?: {
+    allow?: ContractRuleFileConfig[];
+  };
+};
+
+/**
+ * Fee defaults for write tools
+ */
+export type FeesFileConfig = {
+  token?: 'ETH' | 'STRK';
+  margin?: number;
+};
+
+/**
+ * Local paymaster: a configured account that submits outside executions and pays their gas
+ */
+export type PaymasterFileConfig = {
+  relayer?: string;
+  sponsor?: boolean;
+  chargeMargin?: number;
+};
+
+/**
+ * Shape of the configuration file
+ */
+export type ServerConfig = {
+  networks?: Record<string, NetworkFileConfig>;
+  rpc?: RpcFileConfig;
+  cache?: CacheFileConfig;
+  abiCache?: AbiCacheFileConfig;
+  accounts?: Record<string, AccountFileConfig>;
+  accountStore?: AccountStoreFileConfig;
+  allowPrivateKeys?: boolean;
+  policy?: PolicyFileConfig;
+  guardrails?: GuardrailsFileConfig;
+  dryRun?: boolean;
+  fees?: FeesFileConfig;
+  paymaster?: PaymasterFileConfig;
+};
+
+// Loaded configuration, read once per process
+let loadedConfig: ServerConfig | null = null;
+
+/**
+ * Read and parse a configuration file
+ * @param path Path to a .json, .yaml or .yml file
+ * @returns The parsed configuration
+ */
+export function readConfigFile(path: string): ServerConfig {
+  const fullPath = resolve(path);
+
+  if (!existsSync(fullPath)) {
+    throw new Error(`Config file not found: ${fullPath}`);
+  }
+
+  const raw = readFileSync(fullPath, 'utf8');
+  const extension = extname(fullPath).toLowerCase();
+
+  try {
+    const parsed = extension === '.yaml' || extension === '.yml'
+      ? parseYaml(raw)
+      : JSON.parse(raw);
+
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object at the top level');
+    }
+
+    return parsed as ServerConfig;
+  } catch (error) {
+    throw new Error(`Invalid config file ${fullPath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Get the server configuration, loading it from STARKNET_MCP_CONFIG on first use
+ * @returns The server configuration (empty if no config file is set)
+ */
+export function getConfig(): ServerConfig {
+  if (!loadedConfig) {
+    const path = process.env[CONFIG_PATH_ENV];
+    loadedConfig = path ? readConfigFile(path) : {};
+  }
+
+  return loadedConfig;
+}
+
+/**
+ * Resolve a path from the config file relative to the config file's directory
+ * @param path Path as written in the config file
+ * @returns The absolute path
+ */
+export function resolveConfigPath(path: string): string {
+  const configPath = process.env[CONFIG_PATH_ENV];
+  return configPath ? resolve(dirname(resolve(configPath)), path) : resolve(path);
+}
@@ -16,7 +16,7 @@ export function registerResources(server: McpServer) {
         const network = params.network as string;
         const provider = services.getProvider(network);
         const blockNumber = await services.getBlockNumber(network);
-        const rpcUrl = getRpcUrl(network);
+        const rpcUrl = services.redactRpcUrl(getRpcUrl(network));
         
         return {
           contents: [{
@@ -152,11 +152,9 @@ export function registerResources(server: McpServer) {
         // Try to resolve the address if it's a Starknet ID
         const resolvedAddress = await services.utils.resolveNameOrAddress(address, network);
         const ethBalance = await services.getETHBalance(resolvedAddress, network);
-        const provider = services.getProvider(network);
         
-        // Get class hash and class
-        const classHash = await provider.getClassHashAt(resolvedAddress, 'latest');
-        const contractClass = await provider.getClass(classHash, 'latest');
+        // Classify the address (account, token, proxy...) from its class
+        const classification = await services.classifyAddress(resolvedAddress, network);
         
         // Get Starknet ID if available
         const starknetId = await services.getStarkName(resolvedAddress, network);
@@ -167,8 +165,9 @@ export function registerResources(server: McpServer) {
             text: JSON.stringify({
               address: resolvedAddress,
               ethBalance,
-              classHash,
-              contractType: contractClass.abi ? "Contract" : "EOA",
+              classHash: classification.classHash,
+              contractType: classification.type,
+              classification,
               starknetId: starknetId || null,
               hasStarknetId: !!starknetId
             }, (key, value) => 
@@ -0,0 +1,130 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { num, type Abi, type ProviderInterface } from 'starknet';
+import { getConfig } from '../config.js';
+
+// Environment variable pointing to a directory where ABIs are persisted between restarts
+export const ABI_CACHE_DIR_ENV = 'STARKNET_MCP_ABI_CACHE_DIR';
+
+// Parsed ABIs keyed by class hash. A class hash identifies the same class on every network.
+const abiStore = new Map<string, Abi>();
+
+const abiStats = {
+  hits: 0,
+  misses: 0,
+  diskLoads: 0
+};
+
+/**
+ * Normalize a class hash so equal hashes map to the same key
+ */
+function normalizeClassHash(classHash: string): string {
+  return num.toHex(classHash);
+}
+
+/**
+ * Get the directory ABIs are persisted to, if persistence is enabled
+ * @returns The absolute directory path, or null
+ */
+function getAbiCacheDir(): string | null {
+  const dir = process.env[ABI_CACHE_DIR_ENV] || getConfig().abiCache?.dir;
+  return dir ? resolve(dir) : null;
+}
+
+function readAbiFromDisk(classHash: string): Abi | null {
+  const dir = getAbiCacheDir();
+  if (!dir) return null;
+
+  const file = join(dir, `${classHash}.json`);
+  if (!existsSync(file)) return null;
+
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as Abi;
+  } catch (error) {
+    console.error(`Ignoring unreadable ABI cache file ${file}:`, error);
+    return null;
+  }
+}
+
+function writeAbiToDisk(classHash: string, abi: Abi) {
+  const dir = getAbiCacheDir();
+  if (!dir) return;
+
+  try {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, `${classHash}.json`), JSON.stringify(abi));
+  } catch (error) {
+    console.error(`Could not persist ABI for class ${classHash}:`, error);
+  }
+}
+
+/**
+ * Get the parsed ABI of a class, fetching the class only on the first request
+ * @param classHash The class hash
+ * @param provider Provider used to fetch the class on a miss
+ * @returns The ABI (empty if the class has none)
+ */
+export async function getAbiForClassHash(
+  classHash: string,
+  provider: ProviderInterface
+): Promise<Abi> {
+  const key = normalizeClassHash(classHash);
+
+  const cached = abiStore.get(key);
+  if (cached) {
+    abiStats.hits += 1;
+    return cached;
+  }
+
+  const persisted = readAbiFromDisk(key);
+  if (persisted) {
+    abiStats.diskLoads += 1;
+    abiStore.set(key, persisted);
+    return persisted;
+  }
+
+  abiStats.misses += 1;
+
+  const contractClass = await provider.getClassByHash(key);
+  const abi = (contractClass.abi || []) as Abi;
+
+  abiStore.set(key, abi);
+  writeAbiToDisk(key, abi);
+
+  return abi;
+}
+
+/**
+ * Get the ABI of a deployed contract
+ * Resolves the address to its class hash (a cheap call) and reuses the ABI stored for that class.
+ * @param contractAddress The contract address (already formatted)
+ * @param provider Provider used for the lookups
+ * @returns The class hash and ABI of the contract
+ */
+export async function getAbiForAddress(
+  contractAddress: string,
+  provider: ProviderInterface
+): Promise<{ classHash: string; abi: Abi }> {
+  const classHash = await provider.getClassHashAt(contractAddress, 'latest');
+  const abi = await getAbiForClassHash(classHash, provider);
+
+  return { classHash, abi };
+}
+
+/**
+ * Get ABI store statistics
+ * @returns Number of stored ABIs, hit/miss counters and the persistence directory
+ */
+export function getAbiCacheStats(): {
+  size: number;
+  hits: number;
+  misses: number;
+  diskLoads: number;
+  persistDir: string | null;
+} {
+  return {
+    size: abiStore.size,
+    ...abiStats,
+    persistDir: getAbiCacheDir()
+  };
+}
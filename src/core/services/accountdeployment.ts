@@ -0,0 +1,327 @@
+import {
+  Account,
+  CallData,
+  Signer,
+  ec,
+  hash,
+  num,
+  stark,
+  type DeployAccountContractPayload,
+  type DeployAccountSignerDetails,
+  type Signature
+} from 'starknet';
+import { getProvider } from './clients.js';
+import { getETHBalance, getSTRKBalance } from './balance.js';
+import { getDefaultFeeToken, resolveFeeDetails, type FeeOptions, type FeeSummary, type FeeToken } from './fees.js';
+import { formatAmount } from './tokenlist.js';
+import {
+  getRegisteredAccount,
+  markAccountDeployed,
+  storeCreatedAccount,
+  type AccountType,
+  type RegisteredAccount
+} from './accounts.js';
+
+// Account class hashes declared on mainnet and sepolia
+const ACCOUNT_CLASS_HASHES: Record<AccountType, string> = {
+  openzeppelin: '0x061dac032f228abef9c6626f995015233097ae253a7f72d68552db02f2971b8f', // OpenZeppelin 0.14
+  argent: '0x036078334509b514626504edc9fb252328d1a240e4e948bef8d0c08dff45927f', // Argent 0.4.0
+  braavos: '0x013bfe114fb1cf405bfc3a7f8dbe2d91db146c17521d40dcf57e16d6b59fa8e6' // Braavos base account
+};
+
+// Braavos accounts are deployed from a base class and upgrade to this implementation in their constructor
+const BRAAVOS_ACCOUNT_CLASS_HASH = '0x00816dd0297efc55dc1e7559020a3a825e81ef734b558f03c83325d4da7e6253';
+
+/**
+ * A newly created account, ready to be funded
+ */
+export interface CreatedAccount {
+  alias: string;
+  type: AccountType;
+  address: string;
+  publicKey: string;
+  classHash: string;
+  keystore: string;
+  accountFile: string;
+  prefund: PrefundEstimate;
+}
+
+/**
+ * Funds an undeployed account needs before it can deploy itself
+ */
+export interface PrefundEstimate {
+  feeToken: FeeToken;
+  required: string | null; // Max fee of the deployment, in the fee token's smallest unit
+  requiredFormatted: string | null;
+  balance: string | null; // Current balance of the fee token
+  funded: boolean;
+  fee: FeeSummary | null;
+  error?: string;
+}
+
+/**
+ * Result of a submitted DEPLOY_ACCOUNT transaction
+ */
+export interface DeployAccountResult {
+  txHash: string;
+  address: string;
+  fee: FeeSummary;
+}
+
+/**
+ * Signs Braavos deployments, which carry the implementation class hash and chain ID in the
+ * signature, authenticated by a second signature over that auxiliary data
+ */
+class BraavosDeploySigner extends Signer {
+  async signDeployAccountTransaction(details: DeployAccountSignerDetails): Promise<Signature> {
+    const txSignature = stark.formatSignature(await super.signDeployAccountTransaction(details));
+
+    // Auxiliary data: implementation, signer type, secp256r1 signer (4 words), multisig threshold,
+    // withdrawal limit, fee rate and STRK fee rate (all zero: stark signer only), chain ID
+    const auxData = [
+      BRAAVOS_ACCOUNT_CLASS_HASH,
+      0,
+      0, 0, 0, 0,
+      0,
+      0,
+      0,
+      0,
+      details.chainId
+    ].map(value => num.toHex(value));
+    const auxSignature = ec.starkCurve.sign(hash.computePoseidonHashOnElements(auxData), this.pk);
+
+    return [...txSignature, ...auxData, num.toHex(auxSignature.r), num.toHex(auxSignature.s)];
+  }
+}
+
+/**
+ * Build the constructor calldata of an account contract for a public key
+ * @param type Account implementation
+ * @param publicKey Stark public key
+ * @returns The constructor calldata
+ */
+function buildConstructorCalldata(type: AccountType, publicKey: string): string[] {
+  switch (type) {
+    case 'argent':
+      // owner: Signer::Starknet(pubkey), guardian: Option::None
+      return CallData.compile([0, publicKey, 1]);
+    case 'openzeppelin':
+    case 'braavos':
+      return CallData.compile([publicKey]);
+  }
+}
+
+/**
+ * Describe an account contract as a Starkli account variant
+ */
+function buildStarkliVariant(type: AccountType, publicKey: string): Record<string, unknown> {
+  switch (type) {
+    case 'openzeppelin':
+      return { type: 'open_zeppelin', version: 1, public_key: publicKey, legacy: false };
+    case 'argent':
+      return { type: 'argent', version: 1, owner: publicKey, guardian: '0x0' };
+    case 'braavos':
+      return {
+        type: 'braavos',
+        version: 1,
+        implementation: BRAAVOS_ACCOUNT_CLASS_HASH,
+        multisig: { status: 'off' },
+        signers: [{ type: 'stark', public_key: publicKey }]
+      };
+  }
+}
+
+/**
+ * Get a created account that still has to be deployed on a network
+ */
+function getUndeployedAccount(alias: string, network: string): RegisteredAccount & { deployment: NonNullable<RegisteredAccount['deployment']> } {
+  const account = getRegisteredAccount(alias, network);
+
+  if (!account.deployment) {
+    throw new Error(`Account "${account.alias}" was not created by this server and cannot be deployed by it`);
+  }
+
+  return account as RegisteredAccount & { deployment: NonNullable<RegisteredAccount['deployment']> };
+}
+
+/**
+ * Build a starknet.js account and DEPLOY_ACCOUNT payload for a created account
+ */
+function buildDeployment(account: RegisteredAccount & { deployment: NonNullable<RegisteredAccount['deployment']> }, network: string) {
+  const signer = account.deployment.type === 'braavos'
+    ? new BraavosDeploySigner(account.privateKey)
+    : account.privateKey;
+
+  const payload: DeployAccountContractPayload = {
+    classHash: account.deployment.classHash,
+    constructorCalldata: account.deployment.constructorCalldata,
+    addressSalt: account.deployment.salt,
+    contractAddress: account.address
+  };
+
+  return { starknetAccount: new Account(getProvider(network), account.address, signer), payload };
+}
+
+/**
+ * Check whether a contract is deployed at an address
+ */
+async function isDeployed(address: string, network: string): Promise<boolean> {
+  try {
+    await getProvider(network).getClassHashAt(address, 'latest');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the balance of a fee token, in its smallest unit
+ */
+async function getFeeTokenBalance(address: string, feeToken: FeeToken, network: string): Promise<bigint> {
+  return feeToken === 'STRK'
+    ? (await getSTRKBalance(address, network)).wei
+    : (await getETHBalance(address, network)).wei;
+}
+
+/**
+ * Estimate how much of the fee token an undeployed account needs to deploy itself
+ * @param alias Alias of an account created by the server
+ * @param network Network name (mainnet, sepolia)
+ * @param options Fee token and fee margin
+ * @returns Required amount, current balance and whether the account is funded
+ */
+export async function estimateAccountPrefund(
+  alias: string,
+  network = 'mainnet',
+  options: FeeOptions = {}
+): Promise<PrefundEstimate> {
+  const account = getUndeployedAccount(alias, network);
+  const feeToken = options.feeToken ?? getDefaultFeeToken();
+  const { starknetAccount, payload } = buildDeployment(account, network);
+
+  let balance: bigint | null = null;
+  try {
+    balance = await getFeeTokenBalance(account.address, feeToken, network);
+
+    // Validation runs during estimation so the Braavos deployment signature is accounted for
+    const { fee } = await resolveFeeDetails(
+      details => starknetAccount.estimateAccountDeployFee(payload, { ...details, skipValidate: false }),
+      options
+    );
+    const required = BigInt(fee.maxFee);
+
+    return {
+      feeToken,
+      required: required.toString(),
+      requiredFormatted: `${formatAmount(required, 18, { trimZeros: true })} ${feeToken}`,
+      balance: balance.toString(),
+      funded: balance >= required,
+      fee
+    };
+  } catch (error) {
+    return {
+      feeToken,
+      required: null,
+      requiredFormatted: null,
+      balance: balance === null ? null : balance.toString(),
+      funded: false,
+      fee: null,
+      error: `Could not estimate the deployment fee: ${(error as Error).message}`
+    };
+  }
+}
+
+/**
+ * Generate a keypair, compute the counterfactual address of an account contract and store
+ * the account (encrypted) under an alias the write tools can sign with
+ * @param params Alias, account implementation and fee options for the prefund estimate
+ * @param network Network the prefund is estimated on
+ * @returns The new account and the funds it needs before deployment
+ */
+export async function createAccount(
+  params: FeeOptions & {
+    alias: string;
+    type: AccountType;
+  },
+  network = 'mainnet'
+): Promise<CreatedAccount> {
+  const privateKey = num.toHex(stark.randomAddress());
+  const publicKey = ec.starkCurve.getStarkKey(privateKey);
+  const classHash = ACCOUNT_CLASS_HASHES[params.type];
+  const constructorCalldata = buildConstructorCalldata(params.type, publicKey);
+
+  // The public key doubles as the address salt, as in Starkli and the wallets
+  const address = num.toHex(hash.calculateContractAddressFromHash(publicKey, classHash, constructorCalldata, 0));
+
+  const paths = await storeCreatedAccount({
+    alias: params.alias,
+    address,
+    privateKey,
+    publicKey,
+    deployment: {
+      type: params.type,
+      classHash,
+      constructorCalldata,
+      salt: publicKey,
+      deployedOn: []
+    }
+  }, buildStarkliVariant(params.type, publicKey));
+
+  return {
+    alias: params.alias,
+    type: params.type,
+    address,
+    publicKey,
+    classHash,
+    keystore: paths.keystore,
+    accountFile: paths.accountFile,
+    prefund: await estimateAccountPrefund(params.alias, network, params)
+  };
+}
+
+/**
+ * Submit the DEPLOY_ACCOUNT transaction of a funded account created by the server
+ * @param params Account alias and fee options
+ * @param network Network name (mainnet, sepolia)
+ * @returns Transaction hash, address and the fee used
+ */
+export async function deployAccount(
+  params: FeeOptions & {
+    account: string;
+  },
+  network = 'mainnet'
+): Promise<DeployAccountResult> {
+  try {
+    const account = getUndeployedAccount(params.account, network);
+
+    if (await isDeployed(account.address, network)) {
+      markAccountDeployed(account.alias, network);
+      throw new Error(`Account "${account.alias}" is already deployed on ${network} at ${account.address}`);
+    }
+
+    const { starknetAccount, payload } = buildDeployment(account, network);
+    const { details, fee } = await resolveFeeDetails(
+      estimateDetails => starknetAccount.estimateAccountDeployFee(payload, { ...estimateDetails, skipValidate: false }),
+      params
+    );
+
+    const balance = await getFeeTokenBalance(account.address, fee.feeToken, network);
+    if (balance < BigInt(fee.maxFee)) {
+      throw new Error(
+        `Account "${account.alias}" holds ${formatAmount(balance, 18, { trimZeros: true })} ${fee.feeToken} but needs up to ${formatAmount(BigInt(fee.maxFee), 18, { trimZeros: true })} ${fee.feeToken} to deploy. Fund ${account.address} first.`
+      );
+    }
+
+    const { transaction_hash } = await starknetAccount.deployAccount(payload, details);
+    markAccountDeployed(account.alias, network);
+
+    return {
+      txHash: transaction_hash,
+      address: account.address,
+      fee
+    };
+  } catch (error) {
+    console.error('Error deploying account:', error);
+    throw new Error(`Account deployment failed: ${(error as Error).message}`);
+  }
+}
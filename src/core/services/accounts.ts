@@ -0,0 +1,445 @@
+import { createCipheriv, createDecipheriv, pbkdf2, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { ec, num, validateAndParseAddress } from 'starknet';
+import { getConfig, resolveConfigPath } from '../config.js';
+
+// Default environment variable holding the keystore password
+export const KEYSTORE_PASSWORD_ENV = 'STARKNET_KEYSTORE_PASSWORD';
+
+// Environment variable that disables privateKey tool arguments
+export const DISABLE_PRIVATE_KEYS_ENV = 'STARKNET_MCP_DISABLE_PRIVATE_KEYS';
+
+// Default directory for accounts created by the server
+const DEFAULT_ACCOUNT_STORE_DIR = join(homedir(), '.starknet-mcp', 'accounts');
+
+// scrypt parameters for keystores written by the server (same as Starkli)
+const KEYSTORE_SCRYPT_PARAMS = { n: 8192, r: 8, p: 1, dklen: 32 };
+
+const pbkdf2Async = promisify(pbkdf2);
+
+/**
+ * Account contract implementations the server can deploy
+ */
+export type AccountType = 'openzeppelin' | 'argent' | 'braavos';
+
+/**
+ * Counterfactual deployment data of an account created by the server
+ */
+export interface AccountDeployment {
+  type: AccountType;
+  classHash: string;
+  constructorCalldata: string[];
+  salt: string;
+  deployedOn: string[]; // The address is the same on every network, the deployment is not
+}
+
+/**
+ * An account that can sign transactions, unlocked from a keystore
+ */
+export interface RegisteredAccount {
+  alias: string;
+  address: string;
+  privateKey: string;
+  publicKey: string;
+  networks?: string[];
+  deployment?: AccountDeployment; // Only for accounts created by the server
+}
+
+/**
+ * Web3 Secret Storage (v3) keystore, as written by Starkli
+ */
+interface KeystoreV3 {
+  version: number;
+  id?: string;
+  crypto: {
+    cipher: string;
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      n?: number;
+      r?: number;
+      p?: number;
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+// Unlocked accounts keyed by lowercase alias
+const registry = new Map<string, RegisteredAccount>();
+
+/**
+ * Whether tools may accept raw private keys as arguments
+ * Disabled by STARKNET_MCP_DISABLE_PRIVATE_KEYS=true or `allowPrivateKeys: false` in the config file.
+ */
+export function isPrivateKeyInputAllowed(): boolean {
+  if (process.env[DISABLE_PRIVATE_KEYS_ENV] === 'true') {
+    return false;
+  }
+  return getConfig().allowPrivateKeys !== false;
+}
+
+/**
+ * Decrypt a Web3 Secret Storage (v3) keystore
+ * @param keystore The parsed keystore JSON
+ * @param password The keystore password
+ * @returns The private key as a hex string
+ */
+export async function decryptKeystore(keystore: KeystoreV3, password: string): Promise<string> {
+  // Some tools write the section as "Crypto"
+  const crypto = keystore.crypto ?? (keystore as any).Crypto;
+
+  if (keystore.version !== 3 || !crypto) {
+    throw new Error('Unsupported keystore format (expected a version 3 keystore)');
+  }
+  if (crypto.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore cipher: ${crypto.cipher}`);
+  }
+
+  const { kdfparams } = crypto;
+  const salt = Buffer.from(kdfparams.salt, 'hex');
+  let derivedKey: Buffer;
+
+  if (crypto.kdf === 'scrypt') {
+    // OpenSSL rejects some parameter sets found in the wild (e.g. r=1 with a large n),
+    // so scrypt runs through @noble/hashes
+    const { n = 8192, r = 8, p = 1 } = kdfparams;
+    derivedKey = Buffer.from(await scryptAsync(password, salt, {
+      N: n,
+      r,
+      p,
+      dkLen: kdfparams.dklen,
+      maxmem: 2 ** 32
+    }));
+  } else if (crypto.kdf === 'pbkdf2') {
+    if (kdfparams.prf && kdfparams.prf !== 'hmac-sha256') {
+      throw new Error(`Unsupported keystore pbkdf2 prf: ${kdfparams.prf}`);
+    }
+    derivedKey = await pbkdf2Async(password, salt, kdfparams.c ?? 262144, kdfparams.dklen, 'sha256');
+  } else {
+    throw new Error(`Unsupported keystore kdf: ${crypto.kdf}`);
+  }
+
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+  const mac = Buffer.from(keccak_256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])));
+
+  if (!timingSafeEqual(mac, Buffer.from(crypto.mac, 'hex'))) {
+    throw new Error('Keystore password is incorrect');
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+  const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+
+  return num.toHex(`0x${privateKey.toString('hex')}`);
+}
+
+/**
+ * Encrypt a private key into a Web3 Secret Storage (v3) keystore readable by Starkli
+ * @param privateKey The private key
+ * @param password The keystore password
+ * @returns The keystore JSON
+ */
+export async function encryptKeystore(privateKey: string, password: string): Promise<KeystoreV3> {
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+  const { n, r, p, dklen } = KEYSTORE_SCRYPT_PARAMS;
+
+  const derivedKey = Buffer.from(await scryptAsync(password, salt, { N: n, r, p, dkLen: dklen }));
+  const keyBytes = Buffer.from(num.toHex(privateKey).slice(2).padStart(64, '0'), 'hex');
+
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(keyBytes), cipher.final()]);
+  const mac = Buffer.from(keccak_256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])));
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      cipherparams: { iv: iv.toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      kdf: 'scrypt',
+      kdfparams: { dklen, salt: salt.toString('hex'), n, r, p },
+      mac: mac.toString('hex')
+    }
+  };
+}
+
+/**
+ * Read the account address from a Starkli account descriptor file
+ */
+function readAccountFileAddress(path: string): string {
+  const descriptor = JSON.parse(readFileSync(path, 'utf8'));
+  const address = descriptor?.deployment?.address;
+
+  if (!address) {
+    throw new Error(`Account file ${path} has no deployment address`);
+  }
+
+  return address;
+}
+
+/**
+ * Add an unlocked account to the registry
+ * @param account The account to register
+ */
+export function registerAccount(account: RegisteredAccount) {
+  registry.set(account.alias.toLowerCase(), account);
+}
+
+/**
+ * Get the directory where accounts created by the server are stored
+ * @returns The `accountStore.dir` config setting, or ~/.starknet-mcp/accounts
+ */
+export function getAccountStoreDir(): string {
+  const dir = getConfig().accountStore?.dir;
+  return dir ? resolveConfigPath(dir) : DEFAULT_ACCOUNT_STORE_DIR;
+}
+
+/**
+ * Get the password protecting the keystores of accounts created by the server
+ */
+function getAccountStorePassword(): { passwordEnv: string; password: string | undefined } {
+  const passwordEnv = getConfig().accountStore?.passwordEnv ?? KEYSTORE_PASSWORD_ENV;
+  return { passwordEnv, password: process.env[passwordEnv] };
+}
+
+function storedAccountPaths(alias: string): { keystore: string; accountFile: string } {
+  const dir = getAccountStoreDir();
+  return {
+    keystore: join(dir, `${alias}.keystore.json`),
+    accountFile: join(dir, `${alias}.account.json`)
+  };
+}
+
+/**
+ * Save a newly created account to the account store and register it
+ * The key is written as an encrypted keystore next to a Starkli account file, so the
+ * account can also be used with Starkli.
+ * @param account The account to store; must carry its deployment data
+ * @param variant Starkli account variant describing the account contract
+ * @returns Paths of the keystore and account file
+ */
+export async function storeCreatedAccount(
+  account: RegisteredAccount,
+  variant: Record<string, unknown>
+): Promise<{ keystore: string; accountFile: string }> {
+  if (!account.deployment) {
+    throw new Error(`Account ${account.alias} has no deployment data`);
+  }
+  if (!/^[A-Za-z0-9_-]+$/.test(account.alias)) {
+    throw new Error('Account aliases may only contain letters, digits, "-" and "_"');
+  }
+  if (registry.has(account.alias.toLowerCase())) {
+    throw new Error(`An account named "${account.alias}" already exists`);
+  }
+
+  const { passwordEnv, password } = getAccountStorePassword();
+  if (!password) {
+    throw new Error(`Set ${passwordEnv} to encrypt the keystores of new accounts`);
+  }
+
+  const paths = storedAccountPaths(account.alias);
+  if (existsSync(paths.keystore) || existsSync(paths.accountFile)) {
+    throw new Error(`Account files for "${account.alias}" already exist in ${getAccountStoreDir()}`);
+  }
+
+  const keystore = await encryptKeystore(account.privateKey, password);
+  const descriptor = {
+    version: 1,
+    variant,
+    deployment: {
+      status: 'undeployed',
+      class_hash: account.deployment.classHash,
+      salt: account.deployment.salt,
+      address: account.address
+    },
+    starknet_mcp: {
+      type: account.deployment.type,
+      constructor_calldata: account.deployment.constructorCalldata,
+      deployed_on: account.deployment.deployedOn
+    }
+  };
+
+  mkdirSync(getAccountStoreDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(paths.keystore, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+  writeFileSync(paths.accountFile, JSON.stringify(descriptor, null, 2));
+
+  registerAccount(account);
+  return paths;
+}
+
+/**
+ * Record that an account created by the server has been deployed on a network
+ * @param alias The account alias
+ * @param network Network name
+ */
+export function markAccountDeployed(alias: string, network: string) {
+  const account = registry.get(alias.toLowerCase());
+  if (!account?.deployment) return;
+
+  const key = network.toLowerCase();
+  if (!account.deployment.deployedOn.includes(key)) {
+    account.deployment.deployedOn.push(key);
+  }
+
+  const { accountFile } = storedAccountPaths(account.alias);
+  try {
+    const descriptor = JSON.parse(readFileSync(accountFile, 'utf8'));
+    descriptor.deployment.status = 'deployed';
+    descriptor.starknet_mcp.deployed_on = account.deployment.deployedOn;
+    writeFileSync(accountFile, JSON.stringify(descriptor, null, 2));
+  } catch (error) {
+    console.error(`Could not update account file ${accountFile}:`, error);
+  }
+}
+
+/**
+ * Unlock the accounts previously created by the server
+ * Accounts whose alias is already configured are skipped.
+ */
+async function loadStoredAccounts(): Promise<void> {
+  const dir = getAccountStoreDir();
+  if (!existsSync(dir)) return;
+
+  const aliases = readdirSync(dir)
+    .filter(file => file.endsWith('.account.json'))
+    .map(file => file.slice(0, -'.account.json'.length));
+  if (aliases.length === 0) return;
+
+  const { passwordEnv, password } = getAccountStorePassword();
+  if (!password) {
+    console.error(`Skipping ${aliases.length} stored account(s) in ${dir}: set ${passwordEnv} to unlock them`);
+    return;
+  }
+
+  for (const alias of aliases) {
+    if (registry.has(alias.toLowerCase())) {
+      console.error(`Skipping stored account ${alias}: an account with that alias is configured`);
+      continue;
+    }
+
+    const paths = storedAccountPaths(alias);
+    try {
+      const descriptor = JSON.parse(readFileSync(paths.accountFile, 'utf8'));
+      const privateKey = await decryptKeystore(JSON.parse(readFileSync(paths.keystore, 'utf8')), password);
+
+      registerAccount({
+        alias,
+        address: validateAndParseAddress(descriptor.deployment.address),
+        privateKey,
+        publicKey: ec.starkCurve.getStarkKey(privateKey),
+        deployment: {
+          type: descriptor.starknet_mcp.type,
+          classHash: descriptor.deployment.class_hash,
+          constructorCalldata: descriptor.starknet_mcp.constructor_calldata,
+          salt: descriptor.deployment.salt,
+          deployedOn: descriptor.starknet_mcp.deployed_on ?? []
+        }
+      });
+    } catch (error) {
+      console.error(`Could not unlock stored account ${alias}:`, error);
+    }
+  }
+}
+
+/**
+ * Unlock every account listed in the config file, then the accounts created by the server
+ * Keystore passwords come from the environment variable named by `passwordEnv`,
+ * falling back to STARKNET_KEYSTORE_PASSWORD.
+ */
+export async function initializeAccounts(): Promise<void> {
+  const { accounts = {} } = getConfig();
+
+  for (const [alias, entry] of Object.entries(accounts)) {
+    const keystorePath = resolveConfigPath(entry.keystore);
+    if (!existsSync(keystorePath)) {
+      throw new Error(`Keystore for account ${alias} not found: ${keystorePath}`);
+    }
+
+    const passwordEnv = entry.passwordEnv ?? KEYSTORE_PASSWORD_ENV;
+    const password = process.env[passwordEnv];
+    if (password === undefined) {
+      throw new Error(`No password for account ${alias}: set ${passwordEnv}`);
+    }
+
+    const address = entry.address ?? (entry.accountFile ? readAccountFileAddress(resolveConfigPath(entry.accountFile)) : undefined);
+    if (!address) {
+      throw new Error(`Account ${alias} needs an address or an accountFile`);
+    }
+
+    let privateKey: string;
+    try {
+      const keystore = JSON.parse(readFileSync(keystorePath, 'utf8'));
+      privateKey = await decryptKeystore(keystore, password);
+    } catch (error) {
+      throw new Error(`Could not unlock account ${alias}: ${(error as Error).message}`);
+    }
+
+    registerAccount({
+      alias,
+      address: validateAndParseAddress(address),
+      privateKey,
+      publicKey: ec.starkCurve.getStarkKey(privateKey),
+      networks: entry.networks?.map(network => network.toLowerCase())
+    });
+  }
+
+  await loadStoredAccounts();
+
+  if (registry.size > 0) {
+    console.error(`Unlocked ${registry.size} account(s): ${Array.from(registry.values()).map(a => a.alias).join(', ')}`);
+  }
+}
+
+/**
+ * Look up an unlocked account by alias
+ * @param alias The account alias
+ * @param network Network the account is about to be used on
+ * @returns The registered account
+ */
+export function getRegisteredAccount(alias: string, network = 'mainnet'): RegisteredAccount {
+  const account = registry.get(alias.toLowerCase());
+
+  if (!account) {
+    const known = Array.from(registry.values()).map(a => a.alias);
+    throw new Error(`Unknown account "${alias}". Configured accounts: ${known.length ? known.join(', ') : 'none'}`);
+  }
+
+  if (account.networks && !account.networks.includes(network.toLowerCase())) {
+    throw new Error(`Account "${alias}" is not enabled on network ${network} (allowed: ${account.networks.join(', ')})`);
+  }
+
+  return account;
+}
+
+/**
+ * List the configured accounts without their keys
+ * @returns Alias, address and public key of every unlocked account, and the deployment
+ * status of accounts created by the server
+ */
+export function listAccounts(): Array<{
+  alias: string;
+  address: string;
+  publicKey: string;
+  networks: string[] | null;
+  type?: AccountType;
+  deployedOn?: string[];
+}> {
+  return Array.from(registry.values()).map(({ alias, address, publicKey, networks, deployment }) => ({
+    alias,
+    address,
+    publicKey,
+    networks: networks ?? null,
+    ...(deployment ? { type: deployment.type, deployedOn: deployment.deployedOn } : {})
+  }));
+}
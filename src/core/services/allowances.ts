@@ -0,0 +1,171 @@
+import { num } from 'starknet';
+import { getProvider, parseStarknetAddress } from './clients.js';
+import { formatAmount, readU256, TOKEN_LIST, UNLIMITED_ALLOWANCE } from './tokenlist.js';
+import { utils } from './utils.js';
+
+// Tokens of the token list checked by an allowance audit unless others are given
+const AUDIT_SYMBOLS = ['ETH', 'STRK', 'USDC', 'USDT', 'DAI', 'WBTC'];
+
+// Contracts commonly approved to spend tokens (DEX routers, lending markets)
+const KNOWN_SPENDERS: Record<string, Record<string, string>> = {
+  mainnet: {
+    '0x04270219d365d6b017231b52e92b3fb5d7c8378b05e9abc97724537a80e93b0f': 'AVNU Exchange',
+    '0x00000005dd3d2f4429af886cd1a3b08289dbcea99a294197e9eb43b0e0325b4b': 'Ekubo Core',
+    '0x041fd22b238fa21cfcf5dd45a8548974d8263b3a531a60388411c5e230f97023': 'JediSwap Router',
+    '0x07a6f98c03379b9513ca84cca1373ff452a7462a3b61598f0af5bb27ad7f76d1': '10KSwap Router',
+    '0x010884171baf1914edc28d7afb619b40a4051cfae78a094a55d230f19e944a28': 'mySwap',
+    '0x04c0a5193d58f74fbace4b74dcf65481e734ed1714121bdc571da345540efa05': 'zkLend Market',
+    '0x02545b2e5d519fc230e9cd781046d3a64e092114f07e44771e0d719d148725ef': 'Vesu'
+  }
+};
+
+/**
+ * Allowance of a spender over an owner's tokens
+ */
+export interface TokenAllowance {
+  token: string;
+  symbol: string | null;
+  owner: string;
+  spender: string;
+  spenderName: string | null; // Name of a known spender
+  raw: string;
+  formatted: string;
+  decimals: number;
+  unlimited: boolean;
+}
+
+/**
+ * Read the decimals of a token with a plain call
+ */
+async function readDecimals(token: string, network: string): Promise<number> {
+  const result = await getProvider(network).callContract({ contractAddress: token, entrypoint: 'decimals', calldata: [] });
+  return Number(num.toBigInt(result[0]));
+}
+
+/**
+ * Read an allowance with a plain call, which works for Cairo 0 and Cairo 1 tokens alike
+ * without fetching their ABI
+ * @param decimals The token decimals, read once for all the spenders of a token
+ */
+async function readAllowance(
+  token: string,
+  owner: string,
+  spender: string,
+  network: string,
+  decimals: Promise<number>,
+  symbol: string | null = null
+): Promise<TokenAllowance> {
+  const [allowanceResult, tokenDecimals] = await Promise.all([
+    getProvider(network).callContract({ contractAddress: token, entrypoint: 'allowance', calldata: [owner, spender] }),
+    decimals
+  ]);
+
+  const allowance = readU256(allowanceResult);
+  const unlimited = allowance >= UNLIMITED_ALLOWANCE;
+  const spenderName = Object.entries(KNOWN_SPENDERS[network.toLowerCase()] ?? {})
+    .find(([address]) => num.toBigInt(address) === num.toBigInt(spender))?.[1] ?? null;
+
+  return {
+    token,
+    symbol,
+    owner,
+    spender,
+    spenderName,
+    raw: allowance.toString(),
+    formatted: unlimited ? 'unlimited' : formatAmount(allowance, tokenDecimals),
+    decimals: tokenDecimals,
+    unlimited
+  };
+}
+
+/**
+ * Get how much of an owner's tokens a spender may transfer
+ * @param tokenAddress Token contract address or Starknet ID
+ * @param ownerAddress Owner address or Starknet ID
+ * @param spenderAddress Spender address or Starknet ID
+ * @param network Network name (mainnet, sepolia)
+ * @returns The allowance in raw and human-readable units
+ */
+export async function getTokenAllowance(
+  tokenAddress: string,
+  ownerAddress: string,
+  spenderAddress: string,
+  network = 'mainnet'
+): Promise<TokenAllowance> {
+  const [token, owner, spender] = await Promise.all(
+    [tokenAddress, ownerAddress, spenderAddress].map(async value =>
+      parseStarknetAddress(await utils.resolveNameOrAddress(value, network))
+    )
+  );
+
+  return readAllowance(token, owner, spender, network, readDecimals(token, network));
+}
+
+/**
+ * List an owner's non-zero allowances to known spenders
+ * By default the main tokens of the network are checked against well-known DEX routers and
+ * lending markets; more tokens and spenders can be given.
+ * @param ownerAddress Owner address or Starknet ID
+ * @param network Network name (mainnet, sepolia)
+ * @param options Extra token and spender addresses to check
+ * @returns The non-zero allowances, unlimited ones first, and what was checked
+ */
+export async function auditAllowances(
+  ownerAddress: string,
+  network = 'mainnet',
+  options: { tokens?: string[]; spenders?: string[] } = {}
+): Promise<{
+  owner: string;
+  tokensChecked: number;
+  spendersChecked: number;
+  allowances: TokenAllowance[];
+  errors: Array<{ token: string; spender: string; error: string }>;
+}> {
+  const owner = parseStarknetAddress(await utils.resolveNameOrAddress(ownerAddress, network));
+
+  const tokens = new Map<string, string | null>();
+  for (const { symbol, address } of TOKEN_LIST[network.toLowerCase()] ?? []) {
+    if (AUDIT_SYMBOLS.includes(symbol)) tokens.set(parseStarknetAddress(address), symbol);
+  }
+  for (const token of options.tokens ?? []) {
+    const address = parseStarknetAddress(await utils.resolveNameOrAddress(token, network));
+    if (!tokens.has(address)) tokens.set(address, null);
+  }
+
+  const spenders = new Set(Object.keys(KNOWN_SPENDERS[network.toLowerCase()] ?? {}).map(parseStarknetAddress));
+  for (const spender of options.spenders ?? []) {
+    spenders.add(parseStarknetAddress(await utils.resolveNameOrAddress(spender, network)));
+  }
+
+  if (spenders.size === 0) {
+    throw new Error(`No known spenders on ${network}: pass the spender addresses to check`);
+  }
+
+  const allowances: TokenAllowance[] = [];
+  const errors: Array<{ token: string; spender: string; error: string }> = [];
+
+  // One token at a time, its spenders in parallel; a token without decimals fails every spender
+  for (const [token, symbol] of tokens) {
+    const decimals = readDecimals(token, network);
+    const results = await Promise.allSettled(
+      Array.from(spenders, spender => readAllowance(token, owner, spender, network, decimals, symbol))
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        if (BigInt(result.value.raw) > BigInt(0)) allowances.push(result.value);
+      } else {
+        errors.push({ token, spender: Array.from(spenders)[index], error: (result.reason as Error).message });
+      }
+    });
+  }
+
+  allowances.sort((a, b) => Number(b.unlimited) - Number(a.unlimited));
+
+  return {
+    owner,
+    tokensChecked: tokens.size,
+    spendersChecked: spenders.size,
+    allowances,
+    errors
+  };
+}
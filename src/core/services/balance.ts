@@ -1,28 +1,7 @@
 import { getProvider, getContract, parseStarknetAddress } from './clients.js';
+import { formatAmount, TOKEN_ADDRESSES } from './tokenlist.js';
 import { utils as helpers } from './utils.js';
 
-// Token contract addresses (same for all networks)
-const TOKEN_ADDRESSES = {
-  ETH: '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7',
-  STRK: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d'
-};
-
-/**
- * Format a token amount according to its decimals
- * @param amount The raw amount
- * @param decimals The number of decimals
- * @returns Formatted amount as string
- */
-function formatAmount(amount: bigint, decimals: number): string {
-  if (decimals === 0) return amount.toString();
-  
-  const amountStr = amount.toString().padStart(decimals + 1, '0');
-  const integerPart = amountStr.slice(0, -decimals) || '0';
-  const fractionalPart = amountStr.slice(-decimals);
-  
-  return `${integerPart}.${fractionalPart}`;
-}
-
 /**
  * Get a token balance (any ERC20 token including ETH/STRK)
  * @param tokenAddress Token contract address
@@ -0,0 +1,340 @@
+import { hash, num } from 'starknet';
+import { getConfig } from '../config.js';
+import { poolFetch } from './endpoints.js';
+
+// Default cache tuning, overridable through the `cache` section of the config file
+const DEFAULT_MAX_ENTRIES = 2000;
+const DEFAULT_HEAD_TTL_MS = 2_000;
+
+// Token metadata selectors whose results never change for a given contract
+const METADATA_SELECTORS = new Set(
+  ['name', 'symbol', 'decimals'].map(name => num.toBigInt(hash.getSelectorFromName(name)))
+);
+
+// Methods whose `latest` results are valid until the next block
+const LATEST_CACHEABLE_METHODS = new Set([
+  'starknet_call',
+  'starknet_getStorageAt',
+  'starknet_getClassHashAt',
+  'starknet_getClassAt',
+  'starknet_getNonce',
+  'starknet_getBlockWithTxHashes',
+  'starknet_getBlockWithTxs',
+  'starknet_getBlockWithReceipts',
+  'starknet_getBlockTransactionCount',
+  'starknet_getStateUpdate'
+]);
+
+// Block methods whose results are only immutable once the block is final on L1
+const BLOCK_METHODS = new Set([
+  'starknet_getBlockWithTxHashes',
+  'starknet_getBlockWithTxs',
+  'starknet_getBlockWithReceipts',
+  'starknet_getBlockTransactionCount',
+  'starknet_getStateUpdate'
+]);
+
+/**
+ * How long a cached result stays valid
+ * - immutable: forever (class by hash, data at a block hash, finalized blocks, token metadata)
+ * - latest: until the chain head advances
+ */
+type CacheKind = 'immutable' | 'latest';
+
+interface CacheEntry {
+  network: string;
+  kind: CacheKind;
+  result: unknown;
+}
+
+interface ChainHead {
+  blockNumber: number;
+  checkedAt: number;
+}
+
+/**
+ * Response cache statistics
+ */
+export interface CacheStats {
+  enabled: boolean;
+  size: number;
+  maxEntries: number;
+  immutableEntries: number;
+  latestEntries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  invalidations: number;
+  heads: Record<string, number>;
+}
+
+// LRU store: Map iteration order is insertion order, so the first key is the least recently used
+const entries = new Map<string, CacheEntry>();
+const heads = new Map<string, ChainHead>();
+
+const stats = {
+  hits: 0,
+  misses: 0,
+  evictions: 0,
+  invalidations: 0
+};
+
+/**
+ * Whether response caching is enabled (on unless `cache.enabled: false`)
+ */
+function isCacheEnabled(): boolean {
+  return getConfig().cache?.enabled !== false;
+}
+
+function getMaxEntries(): number {
+  return getConfig().cache?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+}
+
+/**
+ * Decide how a JSON-RPC request may be cached, before it is sent
+ * @param method JSON-RPC method
+ * @param params JSON-RPC params
+ * @returns The cache kind, or null if the request must not be cached
+ */
+function classifyRequest(method: string, params: any): CacheKind | null {
+  const blockId = params?.block_id;
+
+  if (method === 'starknet_chainId' || method === 'starknet_specVersion') {
+    return 'immutable';
+  }
+
+  // A class hash always identifies the same class
+  if (method === 'starknet_getClass') {
+    return 'immutable';
+  }
+
+  // A transaction hash commits to the transaction's content
+  if (method === 'starknet_getTransactionByHash') {
+    return 'immutable';
+  }
+
+  // Token name, symbol and decimals are fixed at deployment, whatever block is asked for
+  if (method === 'starknet_call') {
+    const selector = params?.request?.entry_point_selector;
+    if (selector && METADATA_SELECTORS.has(num.toBigInt(selector))) {
+      return 'immutable';
+    }
+  }
+
+  if (!LATEST_CACHEABLE_METHODS.has(method) || blockId === undefined) {
+    return null;
+  }
+
+  // Pending data changes continuously
+  if (blockId === 'pending') {
+    return null;
+  }
+
+  if (typeof blockId === 'object' && 'block_hash' in blockId) {
+    return 'immutable';
+  }
+
+  return 'latest';
+}
+
+/**
+ * Refine the cache kind once the result is known
+ * Blocks fetched by number only become immutable once accepted on L1.
+ */
+function classifyResult(method: string, params: any, kind: CacheKind, result: any): CacheKind {
+  const blockId = params?.block_id;
+
+  if (kind === 'latest' && BLOCK_METHODS.has(method) && typeof blockId === 'object' && 'block_number' in blockId) {
+    return result?.status === 'ACCEPTED_ON_L1' ? 'immutable' : 'latest';
+  }
+
+  return kind;
+}
+
+/**
+ * Get the chain head for a network, refreshing it at most once per head TTL
+ * Advancing the head drops every `latest` entry of that network.
+ * @param network Network name
+ * @returns The latest block number
+ */
+async function getChainHead(network: string): Promise<number> {
+  const ttl = getConfig().cache?.headTtlMs ?? DEFAULT_HEAD_TTL_MS;
+  const head = heads.get(network);
+
+  if (head && Date.now() - head.checkedAt < ttl) {
+    return head.blockNumber;
+  }
+
+  const response = await poolFetch(network, {
+    method: 'POST',
+    body: JSON.stringify({ id: 0, jsonrpc: '2.0', method: 'starknet_blockNumber' }),
+    headers: { 'Content-Type': 'application/json' }
+  });
+  const { result, error } = await response.json();
+
+  if (error) {
+    throw new Error(`Could not fetch chain head: ${error.message}`);
+  }
+
+  if (head && head.blockNumber !== result) {
+    invalidateLatest(network);
+  }
+
+  heads.set(network, { blockNumber: result, checkedAt: Date.now() });
+  return result;
+}
+
+/**
+ * Drop every `latest` entry for a network
+ */
+function invalidateLatest(network: string) {
+  for (const [key, entry] of entries) {
+    if (entry.network === network && entry.kind === 'latest') {
+      entries.delete(key);
+      stats.invalidations += 1;
+    }
+  }
+}
+
+function readEntry(key: string): CacheEntry | undefined {
+  const entry = entries.get(key);
+
+  if (entry) {
+    // Move to the most recently used position
+    entries.delete(key);
+    entries.set(key, entry);
+  }
+
+  return entry;
+}
+
+function writeEntry(key: string, entry: CacheEntry) {
+  entries.delete(key);
+  entries.set(key, entry);
+
+  const maxEntries = getMaxEntries();
+  while (entries.size > maxEntries) {
+    const oldestKey = entries.keys().next().value as string;
+    entries.delete(oldestKey);
+    stats.evictions += 1;
+  }
+}
+
+/**
+ * Build a JSON-RPC response for a cached result
+ */
+function cachedResponse(id: unknown, result: unknown): Response {
+  return new Response(JSON.stringify({ jsonrpc: '2.0', id, result }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Send a JSON-RPC request through the response cache and the endpoint pool of a network
+ * Batched requests and non-cacheable methods go straight to the pool.
+ * @param network Network name
+ * @param init Fetch options (method, body, headers)
+ * @returns The cached or fresh response
+ */
+export async function cachedFetch(network: string, init?: RequestInit): Promise<Response> {
+  const key = network.toLowerCase();
+
+  if (!isCacheEnabled() || typeof init?.body !== 'string') {
+    return poolFetch(key, init);
+  }
+
+  let request: any;
+  try {
+    request = JSON.parse(init.body);
+  } catch {
+    return poolFetch(key, init);
+  }
+
+  const kind = Array.isArray(request) ? null : classifyRequest(request.method, request.params);
+  if (!kind) {
+    return poolFetch(key, init);
+  }
+
+  const cacheKey = `${key}:${request.method}:${JSON.stringify(request.params ?? null)}`;
+
+  // Make sure `latest` entries from older blocks are gone before looking up
+  if (kind === 'latest') {
+    await getChainHead(key);
+  }
+
+  const entry = readEntry(cacheKey);
+  if (entry) {
+    stats.hits += 1;
+    return cachedResponse(request.id, entry.result);
+  }
+
+  stats.misses += 1;
+
+  const response = await poolFetch(key, init);
+  const text = await response.text();
+
+  try {
+    const { result, error } = JSON.parse(text);
+    if (!error && result !== undefined) {
+      writeEntry(cacheKey, {
+        network: key,
+        kind: classifyResult(request.method, request.params, kind, result),
+        result
+      });
+    }
+  } catch {
+    // Not JSON; hand it back to the provider untouched
+  }
+
+  return new Response(text, { status: response.status, headers: response.headers });
+}
+
+/**
+ * Create a fetch function backed by the response cache, for use as an RpcProvider baseFetch
+ * @param network Network name
+ * @returns A fetch-compatible function
+ */
+export function createCachedFetch(network: string): typeof fetch {
+  return ((_input: unknown, init?: RequestInit) => cachedFetch(network, init)) as typeof fetch;
+}
+
+/**
+ * Get response cache statistics
+ * @returns Hit/miss counters, size and the last seen chain head per network
+ */
+export function getCacheStats(): CacheStats {
+  let immutableEntries = 0;
+  for (const entry of entries.values()) {
+    if (entry.kind === 'immutable') immutableEntries += 1;
+  }
+
+  const lookups = stats.hits + stats.misses;
+
+  return {
+    enabled: isCacheEnabled(),
+    size: entries.size,
+    maxEntries: getMaxEntries(),
+    immutableEntries,
+    latestEntries: entries.size - immutableEntries,
+    hits: stats.hits,
+    misses: stats.misses,
+    hitRate: lookups === 0 ? 0 : Number((stats.hits / lookups).toFixed(4)),
+    evictions: stats.evictions,
+    invalidations: stats.invalidations,
+    heads: Object.fromEntries(Array.from(heads, ([network, head]) => [network, head.blockNumber]))
+  };
+}
+
+/**
+ * Remove every cached response
+ * @param network Optional network name to restrict clearing to
+ */
+export function clearCache(network?: string) {
+  for (const [key, entry] of entries) {
+    if (!network || entry.network === network.toLowerCase()) {
+      entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+import { constants, type Abi } from 'starknet';
+import { encodeCalldata } from './calldata.js';
+
+const abi: Abi = [
+  {
+    type: 'struct',
+    name: 'core::integer::u256',
+    members: [
+      { name: 'low', type: 'core::integer::u128' },
+      { name: 'high', type: 'core::integer::u128' }
+    ]
+  },
+  {
+    type: 'function',
+    name: 'set',
+    inputs: [{ name: 'value', type: 'core::integer::u8' }],
+    outputs: [],
+    state_mutability: 'external'
+  }
+];
+
+/**
+ * Encode a single argument of the given type
+ */
+function encode(type: string, value: unknown): string[] {
+  const typedAbi = abi.map((entry: any) => entry.name === 'set' ? { ...entry, inputs: [{ name: 'value', type }] } : entry);
+  return encodeCalldata(typedAbi, 'set', { value });
+}
+
+describe('encodeCalldata bounds', () => {
+  test('unsigned integers are checked against their width', () => {
+    expect(encode('core::integer::u8', '255')).toEqual(['255']);
+    expect(() => encode('core::integer::u8', '300')).toThrow('Invalid argument "value" (core::integer::u8): expected an integer from 0 to 255, got "300"');
+    expect(() => encode('core::integer::u8', -1)).toThrow('expected an integer from 0 to 255');
+    expect(() => encode('core::integer::u16', 65536)).toThrow('expected an integer from 0 to 65535');
+    expect(() => encode('core::integer::u32', '0x100000000')).toThrow('expected an integer from 0 to 4294967295');
+    expect(() => encode('core::integer::u64', (BigInt(2) ** BigInt(64)).toString())).toThrow('from 0 to 18446744073709551615');
+    expect(() => encode('core::integer::u128', (BigInt(2) ** BigInt(128)).toString())).toThrow('from 0 to 2^128 - 1');
+  });
+
+  test('u256 is checked as a number and as limbs', () => {
+    const max = BigInt(2) ** BigInt(256) - BigInt(1);
+    expect(encode('core::integer::u256', max.toString())).toHaveLength(2);
+    expect(() => encode('core::integer::u256', (max + BigInt(1)).toString())).toThrow('from 0 to 2^256 - 1');
+    expect(encode('core::integer::u256', { low: '1', high: '0' })).toEqual(['1', '0']);
+    expect(() => encode('core::integer::u256', { low: (BigInt(2) ** BigInt(128)).toString(), high: '0' }))
+      .toThrow('Invalid argument "value.low" (core::integer::u128)');
+    expect(() => encode('core::integer::u256', { low: '1' })).toThrow('expected a number or {low, high}');
+  });
+
+  test('signed integers are checked against their range', () => {
+    expect(() => encode('core::integer::i8', 128)).toThrow('expected an integer from -128 to 127');
+    expect(() => encode('core::integer::i8', '-129')).toThrow('expected an integer from -128 to 127');
+    expect(() => encode('core::integer::i128', (BigInt(2) ** BigInt(127)).toString())).toThrow('from -2^127 to 2^127 - 1');
+  });
+
+  test('felt252 must be below P, or a short string', () => {
+    const prime = constants.PRIME;
+    expect(encode('core::felt252', (prime - BigInt(1)).toString())).toEqual([(prime - BigInt(1)).toString()]);
+    expect(() => encode('core::felt252', prime.toString())).toThrow('expected a field element below P');
+    expect(encode('core::felt252', 'hello')).toHaveLength(1);
+    expect(() => encode('core::felt252', 'a'.repeat(32))).toThrow('short string of at most 31 characters');
+  });
+
+  test('contract addresses must be below 2^251 - 256', () => {
+    expect(() => encode('core::starknet::contract_address::ContractAddress', (BigInt(2) ** BigInt(251)).toString()))
+      .toThrow('expected an address below 2^251 - 256');
+    expect(() => encode('core::starknet::contract_address::ContractAddress', 'alice'))
+      .toThrow('expected a decimal or 0x-prefixed hex number');
+  });
+
+  test('bools must be true or false', () => {
+    expect(encode('core::bool', true)).toEqual(['1']);
+    expect(() => encode('core::bool', 'yes')).toThrow('expected true or false');
+  });
+
+  test('unsafe JSON integers are refused', () => {
+    expect(() => encode('core::integer::u64', 2 ** 60)).toThrow('expected a string for integers above 2^53');
+  });
+});
@@ -0,0 +1,561 @@
+import {
+  CairoCustomEnum,
+  CairoOption,
+  CairoOptionVariant,
+  CairoResult,
+  CairoResultVariant,
+  CallData,
+  constants,
+  events,
+  hash,
+  num,
+  parseCalldataField,
+  type Abi,
+  type AbiEnums,
+  type AbiEvents,
+  type AbiStructs,
+  type FunctionAbi
+} from 'starknet';
+
+/**
+ * Arguments of a contract function: an object keyed by parameter name, or an array in declaration order
+ */
+export type NamedArgs = Record<string, unknown> | unknown[];
+
+/**
+ * An event decoded with the ABI of the contract that emitted it
+ */
+export interface DecodedEvent {
+  name: string; // Short event name, e.g. Transfer
+  type: string; // Full event type, e.g. openzeppelin::token::erc20::erc20::ERC20Component::Transfer
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Structs and enums of an ABI, keyed by their full Cairo type name
+ */
+interface AbiTypes {
+  structs: AbiStructs;
+  enums: AbiEnums;
+}
+
+// Types decoded as hex strings
+const HEX_TYPES = new Set([
+  'felt',
+  'core::felt252',
+  'core::starknet::contract_address::ContractAddress',
+  'core::starknet::class_hash::ClassHash',
+  'core::starknet::eth_address::EthAddress',
+  'core::starknet::storage_access::StorageAddress'
+]);
+
+const BYTE_ARRAY_TYPE = 'core::byte_array::ByteArray';
+
+// Longest short string a felt252 holds
+const SHORT_STRING_MAX_LENGTH = 31;
+
+/**
+ * Get the type argument(s) of a generic Cairo type, e.g. `T` of `core::array::Array::<T>`
+ */
+function genericArguments(type: string): string[] {
+  const start = type.indexOf('<');
+  return splitTopLevel(type.slice(start + 1, type.lastIndexOf('>')));
+}
+
+/**
+ * Split a comma-separated list of types, ignoring commas nested in generics and tuples
+ */
+function splitTopLevel(types: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of types) {
+    if (char === '<' || char === '(' || char === '[') depth += 1;
+    if (char === '>' || char === ')' || char === ']') depth -= 1;
+
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function isTuple(type: string): boolean {
+  return type.startsWith('(') && type.endsWith(')') && type !== '()';
+}
+
+function isArray(type: string): boolean {
+  return type.startsWith('core::array::Array::<') || type.startsWith('core::array::Span::<');
+}
+
+function isFixedArray(type: string): boolean {
+  return /^\[.+; *\d+\]$/.test(type);
+}
+
+function fixedArrayType(type: string): string {
+  return type.slice(1, type.lastIndexOf(';')).trim();
+}
+
+function isOption(type: string): boolean {
+  return type.startsWith('core::option::Option::<');
+}
+
+function isResult(type: string): boolean {
+  return type.startsWith('core::result::Result::<');
+}
+
+function isInteger(type: string): boolean {
+  return /^core::integer::(u|i)\d+$/.test(type) || type === 'core::integer::usize' || type === 'Uint256';
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value, (_key, item) => typeof item === 'bigint' ? item.toString() : item);
+}
+
+/**
+ * Get the range of values a numeric Cairo type holds
+ * @param type Cairo type
+ * @returns Smallest and largest value, with a description for error messages, or undefined
+ * for types that are not numbers
+ */
+function numericRange(type: string): { min: bigint; max: bigint; description: string } | undefined {
+  const power = (bits: number) => BigInt(2) ** BigInt(bits);
+  const bound = (bits: number, offset: number) => bits <= 64
+    ? (power(bits) + BigInt(offset)).toString()
+    : `2^${bits}${offset < 0 ? ` - ${-offset}` : ''}`;
+
+  const unsigned = type === 'core::integer::usize' ? 32 : type === 'Uint256' ? 256 : Number(/^core::integer::u(\d+)$/.exec(type)?.[1]);
+  if (unsigned) {
+    return { min: BigInt(0), max: power(unsigned) - BigInt(1), description: `an integer from 0 to ${bound(unsigned, -1)}` };
+  }
+
+  const signed = Number(/^core::integer::i(\d+)$/.exec(type)?.[1]);
+  if (signed) {
+    return {
+      min: -power(signed - 1),
+      max: power(signed - 1) - BigInt(1),
+      description: `an integer from -${bound(signed - 1, 0)} to ${bound(signed - 1, -1)}`
+    };
+  }
+
+  switch (type) {
+    case 'felt':
+    case 'core::felt252':
+    case 'core::starknet::class_hash::ClassHash':
+      return { min: BigInt(0), max: constants.PRIME - BigInt(1), description: 'a field element below P (2^251 + 17 * 2^192 + 1)' };
+    case 'core::starknet::contract_address::ContractAddress':
+    case 'core::starknet::storage_access::StorageAddress':
+      return { min: BigInt(0), max: constants.ADDR_BOUND - BigInt(1), description: 'an address below 2^251 - 256' };
+    case 'core::starknet::eth_address::EthAddress':
+      return { min: BigInt(0), max: power(160) - BigInt(1), description: 'an Ethereum address below 2^160' };
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a JSON value is a number: a bigint, a safe integer, or a decimal or hex string
+ */
+function isNumeric(value: unknown): boolean {
+  return typeof value === 'bigint'
+    || (typeof value === 'number' && Number.isInteger(value))
+    || (typeof value === 'string' && /^(0x[0-9a-fA-F]+|-?\d+)$/.test(value.trim()));
+}
+
+/**
+ * Find a function in an ABI, including functions nested in interfaces
+ * @param abi Contract ABI
+ * @param name Function name
+ * @returns The function entry, or undefined
+ */
+export function getAbiFunction(abi: Abi, name: string): FunctionAbi | undefined {
+  const entries = abi.flatMap((entry: any) => entry.type === 'interface' ? entry.items : [entry]);
+  return entries.find((entry: any) => entry.type === 'function' && entry.name === name);
+}
+
+/**
+ * Find the function, L1 handler or constructor of an ABI an entrypoint selector refers to
+ * @param abi Contract ABI
+ * @param selector Entrypoint selector
+ * @returns The entry, or undefined
+ */
+export function getAbiEntryBySelector(abi: Abi, selector: string): FunctionAbi | undefined {
+  const target = num.toBigInt(selector);
+  const entries = abi.flatMap((entry: any) => entry.type === 'interface' ? entry.items : [entry]);
+  return entries.find((entry: any) =>
+    ['function', 'l1_handler', 'constructor'].includes(entry.type) &&
+    num.toBigInt(hash.getSelectorFromName(entry.name)) === target
+  );
+}
+
+/**
+ * Get the constructor of an ABI, if it has one
+ * @param abi Contract ABI
+ * @returns The constructor entry, or undefined
+ */
+export function getAbiConstructor(abi: Abi): FunctionAbi | undefined {
+  return abi.find((entry: any) => entry.type === 'constructor') as FunctionAbi | undefined;
+}
+
+/**
+ * Convert a JSON value to the representation starknet.js encodes for a Cairo type
+ * Options, results and enums become their starknet.js classes; everything else is
+ * converted recursively and left for starknet.js to validate.
+ * @param value JSON value
+ * @param type Cairo type
+ * @param types Structs and enums of the ABI
+ * @param path Location of the value in the arguments, used in error messages
+ */
+function toCairoValue(value: unknown, type: string, types: AbiTypes, path: string): unknown {
+  const fail = (expected: string): never => {
+    throw new Error(`Invalid argument "${path}" (${type}): expected ${expected}, got ${describe(value)}`);
+  };
+  const limbs = (names: string[]) => {
+    const object = value as Record<string, unknown> | null;
+    if (!object || Array.isArray(object) || Object.keys(object).length !== names.length || !names.every(name => name in object)) {
+      return fail(`a number or {${names.join(', ')}}`);
+    }
+    return Object.fromEntries(names.map(name => [name, toCairoValue(object[name], 'core::integer::u128', types, `${path}.${name}`)]));
+  };
+
+  if (isOption(type)) {
+    const [inner] = genericArguments(type);
+    if (value === null || value === undefined) {
+      return new CairoOption(CairoOptionVariant.None);
+    }
+    if (typeof value === 'object' && !Array.isArray(value) && ('Some' in value || 'None' in value)) {
+      return 'Some' in value
+        ? new CairoOption(CairoOptionVariant.Some, toCairoValue((value as any).Some, inner, types, `${path}.Some`))
+        : new CairoOption(CairoOptionVariant.None);
+    }
+    return new CairoOption(CairoOptionVariant.Some, toCairoValue(value, inner, types, path));
+  }
+
+  if (isResult(type)) {
+    const [okType, errType] = genericArguments(type);
+    if (value && typeof value === 'object' && 'Ok' in value) {
+      return new CairoResult(CairoResultVariant.Ok, toCairoValue((value as any).Ok, okType, types, `${path}.Ok`));
+    }
+    if (value && typeof value === 'object' && 'Err' in value) {
+      return new CairoResult(CairoResultVariant.Err, toCairoValue((value as any).Err, errType, types, `${path}.Err`));
+    }
+    return fail('{"Ok": ...} or {"Err": ...}');
+  }
+
+  if (type === 'core::bool') {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    return fail('true or false');
+  }
+
+  const enumAbi = types.enums[type];
+  if (enumAbi) {
+    const variants = enumAbi.variants;
+    const names = variants.map(variant => variant.name);
+
+    // Unit variants may be given by name alone
+    const [variantName, variantValue] = typeof value === 'string'
+      ? [value, {}]
+      : value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 1
+        ? Object.entries(value)[0]
+        : fail(`a variant name or {"<variant>": value} with one of: ${names.join(', ')}`);
+
+    const variant = variants.find(candidate => candidate.name === variantName);
+    if (!variant) {
+      return fail(`one of the variants ${names.join(', ')}`);
+    }
+
+    const content = variant.type === '()'
+      ? {}
+      : toCairoValue(variantValue, variant.type, types, `${path}.${variant.name}`);
+    return new CairoCustomEnum(Object.fromEntries(names.map(name => [name, name === variant.name ? content : undefined])));
+  }
+
+  if (isArray(type) || isFixedArray(type)) {
+    const inner = isFixedArray(type) ? fixedArrayType(type) : genericArguments(type)[0];
+    if (!Array.isArray(value)) {
+      return fail('an array');
+    }
+    return value.map((item, index) => toCairoValue(item, inner, types, `${path}[${index}]`));
+  }
+
+  if (isTuple(type)) {
+    const members = splitTopLevel(type.slice(1, -1));
+    if (!Array.isArray(value) || value.length !== members.length) {
+      return fail(`an array of ${members.length} values`);
+    }
+    return value.map((item, index) => toCairoValue(item, members[index], types, `${path}[${index}]`));
+  }
+
+  if (type === BYTE_ARRAY_TYPE) {
+    return typeof value === 'string' ? value : fail('a string');
+  }
+
+  const struct = types.structs[type];
+  if (struct && !(type === 'core::integer::u256' || type === 'Uint256') && type !== 'core::integer::u512') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return fail(`an object with ${struct.members.map(member => member.name).join(', ')}`);
+    }
+
+    const unknown = Object.keys(value).filter(key => !struct.members.some(member => member.name === key));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid argument "${path}" (${type}): unknown field(s) ${unknown.join(', ')}`);
+    }
+
+    return Object.fromEntries(struct.members.map(member => {
+      if (!(member.name in value)) {
+        throw new Error(`Missing argument "${path}.${member.name}" (${member.type})`);
+      }
+      return [member.name, toCairoValue((value as any)[member.name], member.type, types, `${path}.${member.name}`)];
+    }));
+  }
+
+  if (value === undefined || value === null) {
+    return fail('a value');
+  }
+
+  // u256 and u512 may also be given as their u128 limbs
+  if ((type === 'core::integer::u256' || type === 'Uint256') && typeof value === 'object') {
+    return limbs(['low', 'high']);
+  }
+  if (type === 'core::integer::u512' && typeof value === 'object') {
+    return limbs(['limb0', 'limb1', 'limb2', 'limb3']);
+  }
+
+  // felt252 also takes short strings; addresses and integers must be numbers
+  const isFelt = type === 'core::felt252' || type === 'felt';
+  if (isFelt && typeof value === 'string' && !isNumeric(value)) {
+    if (value.length > SHORT_STRING_MAX_LENGTH || !/^[\x00-\x7f]*$/.test(value)) {
+      return fail(`a number or an ASCII short string of at most ${SHORT_STRING_MAX_LENGTH} characters`);
+    }
+    return value;
+  }
+
+  const range = numericRange(type);
+  if (range) {
+    if (!isNumeric(value)) {
+      return fail('a decimal or 0x-prefixed hex number');
+    }
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+      return fail('a string for integers above 2^53, which JSON numbers cannot hold exactly');
+    }
+    const number = BigInt(typeof value === 'string' ? value.trim() : value as number | bigint);
+    if (number < range.min || number > range.max) {
+      return fail(range.description);
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Encode the arguments of a contract function using its ABI
+ * Accepts named arguments (structs as objects, enums as {"Variant": value}, Option as a value
+ * or null, tuples and arrays as arrays, u256 as a decimal or hex string, ByteArray as a string).
+ * Integers, felts and addresses are checked against the range of their type before encoding.
+ * @param abi Contract ABI
+ * @param entrypoint Function name (or "constructor")
+ * @param args Arguments keyed by name, or in declaration order
+ * @returns The compiled calldata
+ * @throws Error naming the ABI parameter that is missing or invalid
+ */
+export function encodeCalldata(abi: Abi, entrypoint: string, args: NamedArgs = []): string[] {
+  const fn = entrypoint === 'constructor' ? getAbiConstructor(abi) : getAbiFunction(abi, entrypoint);
+  if (!fn) {
+    throw new Error(`Function ${entrypoint} not found in the contract ABI`);
+  }
+
+  // Legacy (Cairo 0) array lengths are derived from the arrays themselves
+  const inputs = fn.inputs.filter(input => !(input.name.endsWith('_len') && !input.type.includes('::')));
+  const types: AbiTypes = { structs: CallData.getAbiStruct(abi), enums: CallData.getAbiEnum(abi) };
+
+  let values: unknown[];
+  if (Array.isArray(args)) {
+    if (args.length !== inputs.length) {
+      throw new Error(`${entrypoint} takes ${inputs.length} argument(s) (${inputs.map(input => input.name).join(', ')}), got ${args.length}`);
+    }
+    values = args;
+  } else {
+    const unknown = Object.keys(args).filter(key => !inputs.some(input => input.name === key));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown argument(s) ${unknown.join(', ')} for ${entrypoint}; expected: ${inputs.map(input => input.name).join(', ') || 'none'}`);
+    }
+    values = inputs.map(input => {
+      if (!(input.name in args)) {
+        throw new Error(`Missing argument "${input.name}" (${input.type})`);
+      }
+      return args[input.name];
+    });
+  }
+
+  return inputs.flatMap((input, index) => {
+    const value = toCairoValue(values[index], input.type, types, input.name);
+    try {
+      return parseCalldataField([value][Symbol.iterator](), input, types.structs, types.enums);
+    } catch (error) {
+      throw new Error(`Invalid argument "${input.name}" (${input.type}): ${(error as Error).message}`);
+    }
+  });
+}
+
+/**
+ * Convert a value parsed by starknet.js to JSON for a Cairo type
+ * Addresses, class hashes and felts become hex strings, integers decimal strings,
+ * ByteArrays strings, enums {"Variant": value} and options their value or null.
+ */
+function fromCairoValue(value: any, type: string, types: AbiTypes): unknown {
+  if (value instanceof CairoOption) {
+    return value.isSome() ? fromCairoValue(value.unwrap(), genericArguments(type)[0], types) : null;
+  }
+
+  if (value instanceof CairoResult) {
+    const [okType, errType] = genericArguments(type);
+    return value.isOk()
+      ? { Ok: fromCairoValue(value.unwrap(), okType, types) }
+      : { Err: fromCairoValue(value.unwrap(), errType, types) };
+  }
+
+  if (value instanceof CairoCustomEnum) {
+    const variantName = value.activeVariant();
+    const variant = types.enums[type]?.variants.find(candidate => candidate.name === variantName);
+    const content = value.unwrap();
+    return {
+      [variantName]: !variant || variant.type === '()' ? null : fromCairoValue(content, variant.type, types)
+    };
+  }
+
+  if (isArray(type) || isFixedArray(type)) {
+    const inner = isFixedArray(type) ? fixedArrayType(type) : genericArguments(type)[0];
+    return Array.from(value as any[]).map(item => fromCairoValue(item, inner, types));
+  }
+
+  if (isTuple(type)) {
+    const members = splitTopLevel(type.slice(1, -1));
+    return members.map((member, index) => fromCairoValue(value[index], member, types));
+  }
+
+  if (typeof value === 'bigint') {
+    return HEX_TYPES.has(type) ? num.toHex(value) : value.toString();
+  }
+
+  const struct = types.structs[type];
+  if (struct && value && typeof value === 'object') {
+    return Object.fromEntries(struct.members.map(member => [member.name, fromCairoValue(value[member.name], member.type, types)]));
+  }
+
+  // Legacy arrays (felt*, Struct*) and untyped values
+  if (Array.isArray(value)) {
+    return value.map(item => fromCairoValue(item, type.replace(/\*$/, ''), types));
+  }
+
+  return value;
+}
+
+/**
+ * Decode the raw result of a contract call into typed JSON using the ABI
+ * @param abi Contract ABI
+ * @param entrypoint Function name
+ * @param result Raw felts returned by the call
+ * @returns The single return value, an array for several unnamed values, or an object
+ * keyed by name for named (Cairo 0) outputs; null for functions without outputs
+ */
+export function decodeResult(abi: Abi, entrypoint: string, result: string[]): unknown {
+  const fn = getAbiFunction(abi, entrypoint);
+  if (!fn) {
+    throw new Error(`Function ${entrypoint} not found in the contract ABI`);
+  }
+
+  const outputs = fn.outputs.filter(output => !(output.name?.endsWith('_len') && !output.type.includes('::')));
+  if (outputs.length === 0) return null;
+
+  const types: AbiTypes = { structs: CallData.getAbiStruct(abi), enums: CallData.getAbiEnum(abi) };
+  const parsed = new CallData(abi).parse(entrypoint, result) as any;
+
+  if (outputs.length === 1 && !outputs[0].name) {
+    return fromCairoValue(parsed, outputs[0].type, types);
+  }
+
+  if (outputs.every(output => output.name)) {
+    return Object.fromEntries(outputs.map(output => [output.name, fromCairoValue(parsed[output.name], output.type, types)]));
+  }
+
+  return outputs.map((output, index) => fromCairoValue(parsed[index], output.type, types));
+}
+
+/**
+ * Decode the raw calldata of a function call into named arguments using the ABI
+ * @param abi Contract ABI
+ * @param entrypoint Function name, or 'constructor'
+ * @param calldata Raw felts passed to the function
+ * @returns The arguments keyed by parameter name
+ */
+export function decodeCalldata(abi: Abi, entrypoint: string, calldata: string[]): Record<string, unknown> {
+  const fn = entrypoint === 'constructor' ? getAbiConstructor(abi) : getAbiFunction(abi, entrypoint);
+  if (!fn) {
+    throw new Error(`Function ${entrypoint} not found in the contract ABI`);
+  }
+
+  const inputs = fn.inputs.filter(input => !(input.name?.endsWith('_len') && !input.type.includes('::')));
+  if (inputs.length === 0) return {};
+
+  // CallData only parses outputs, so the inputs are parsed as the outputs of a stand-in function
+  const decoder = new CallData([...abi, { type: 'function', name: '__calldata__', inputs: [], outputs: fn.inputs }]);
+  const types: AbiTypes = { structs: CallData.getAbiStruct(abi), enums: CallData.getAbiEnum(abi) };
+  const parsed = decoder.parse('__calldata__', calldata) as any;
+
+  return Object.fromEntries(inputs.map(input => [input.name, fromCairoValue(parsed[input.name], input.type, types)]));
+}
+
+/**
+ * Decode raw events (keys and data) into named fields using the ABI of the emitting contract
+ * @param abi ABI of the contract that emitted the events
+ * @param rawEvents Events as returned by the node
+ * @returns One entry per event, null for events the ABI does not describe
+ */
+export function decodeEvents(abi: Abi, rawEvents: Array<{ keys: string[]; data: string[] }>): Array<DecodedEvent | null> {
+  let abiEvents: AbiEvents;
+  try {
+    abiEvents = events.getAbiEvents(abi);
+  } catch {
+    return rawEvents.map(() => null);
+  }
+
+  const types: AbiTypes = { structs: CallData.getAbiStruct(abi), enums: CallData.getAbiEnum(abi) };
+  const eventEntries = new Map(abi.filter((entry: any) => entry.type === 'event').map((entry: any) => [entry.name as string, entry]));
+
+  return rawEvents.map(rawEvent => {
+    try {
+      // parseEvents consumes the keys it matches, so it is given a normalized copy
+      const [parsed] = events.parseEvents(
+        [{ keys: rawEvent.keys.map(key => num.toHex(key)), data: [...rawEvent.data] } as any],
+        abiEvents,
+        types.structs,
+        types.enums
+      );
+      if (!parsed) return null;
+
+      const type = Object.keys(parsed).find(key => eventEntries.has(key));
+      if (!type) return null;
+
+      const entry = eventEntries.get(type);
+      const members: Array<{ name: string; type: string }> = entry.members ?? [...(entry.keys ?? []), ...(entry.data ?? [])];
+      const values = parsed[type] as Record<string, unknown>;
+
+      return {
+        name: type.split('::').pop()!,
+        type,
+        fields: Object.fromEntries(members
+          .filter(member => member.name in values)
+          .map(member => [member.name, fromCairoValue(values[member.name], member.type, types)]))
+      };
+    } catch {
+      return null;
+    }
+  });
+}
@@ -0,0 +1,223 @@
+import { num, type Abi } from 'starknet';
+import { getProvider, parseStarknetAddress } from './clients.js';
+import { getAbiForClassHash } from './abis.js';
+import { detectStandards, type ContractStandard } from './introspection.js';
+
+/**
+ * What an address is, as far as the classifier can tell
+ */
+export type AddressType = 'account' | 'multisig' | 'erc20' | 'erc721' | 'erc1155' | 'contract' | 'undeployed';
+
+/**
+ * Wallet implementation of an account
+ */
+export type WalletVendor = 'argent' | 'braavos' | 'openzeppelin';
+
+/**
+ * Classification of an address with the evidence it is based on
+ */
+export interface AddressClassification {
+  address: string;
+  deployed: boolean;
+  classHash: string | null;
+  implementationClassHash: string | null; // Class a Cairo 0 proxy delegates to
+  type: AddressType;
+  wallet: WalletVendor | null;
+  tags: string[];
+  interfaces: Record<string, boolean>; // SRC5 supports_interface answers
+  evidence: string[];
+}
+
+// SRC5 interface IDs, with the legacy (ERC165-style) IDs used by Cairo 0 contracts
+const SRC5_INTERFACES: Record<string, string[]> = {
+  SRC6: ['0x2ceccef7f994940b3962a6c67e0ba4fcd37df7d131417c604f91e03caecc1cd', '0xa66bd575'],
+  ERC721: ['0x33eb2f84c309543403fd69f0d0f363781ef06ef6faeb0131ff16ea3175bd943', '0x80ac58cd'],
+  ERC1155: ['0x6114a8f75559e1b39fcba08ce02961a1aa082d9256a158dd3e64964e4b1b52', '0xd9b67a26']
+};
+
+// Account classes deployed by wallets, keyed by class hash
+const KNOWN_ACCOUNT_CLASSES: Record<string, { wallet: WalletVendor; version: string }> = {
+  '0x25ec026985a3bf9d0cc1fe17326b245dfdc3ff89b8fde106542a3ea56c5a918': { wallet: 'argent', version: 'proxy (Cairo 0)' },
+  '0x33434ad846cdd5f23eb73ff09fe6fddd568284a0fb7d1be20ee482f044dabe2': { wallet: 'argent', version: '0.2.3 (Cairo 0)' },
+  '0x1a736d6ed154502257f02b1ccdf4d9d1089f80811cd6acad48e6b6a9d1f2003': { wallet: 'argent', version: '0.3.0' },
+  '0x29927c8af6bccf3f6fda035981e765a7bdbf18a2dc0d630494f8758aa908e2b': { wallet: 'argent', version: '0.3.1' },
+  '0x36078334509b514626504edc9fb252328d1a240e4e948bef8d0c08dff45927f': { wallet: 'argent', version: '0.4.0' },
+  '0x3131fa018d520a037686ce3efddeab8f28895662f019ca3ca18a626650f7d1e': { wallet: 'braavos', version: 'proxy (Cairo 0)' },
+  '0x13bfe114fb1cf405bfc3a7f8dbe2d91db146c17521d40dcf57e16d6b59fa8e6': { wallet: 'braavos', version: 'base account' },
+  '0x816dd0297efc55dc1e7559020a3a825e81ef734b558f03c83325d4da7e6253': { wallet: 'braavos', version: '1.0.0' },
+  '0x4d07e40e93398ed3c76981e72dd1fd22557a78ce36c0515f679e27f0bb5bc5f': { wallet: 'openzeppelin', version: '0.8.1' },
+  '0x61dac032f228abef9c6626f995015233097ae253a7f72d68552db02f2971b8f': { wallet: 'openzeppelin', version: '0.14.0' }
+};
+
+// Functions that identify a wallet implementation when the class hash is unknown
+const VENDOR_FUNCTIONS: Array<{ wallet: WalletVendor; functions: string[] }> = [
+  { wallet: 'argent', functions: ['get_guardian', 'getGuardian'] },
+  { wallet: 'braavos', functions: ['get_multisig', 'get_multisig_threshold'] },
+  { wallet: 'openzeppelin', functions: ['set_public_key', 'setPublicKey'] }
+];
+
+// Function pairs that identify multisig accounts (Argent multisig, OpenZeppelin multisig)
+const MULTISIG_FUNCTIONS = [
+  ['get_threshold', 'get_signers'],
+  ['get_quorum', 'is_signer']
+];
+
+// Getters of the implementation class hash of Cairo 0 proxies
+const IMPLEMENTATION_GETTERS = ['get_implementation', 'getImplementation', 'get_implementation_hash', 'implementation'];
+
+function functionNames(abi: Abi): Set<string> {
+  return new Set(
+    abi.flatMap((entry: any) => entry.type === 'interface' ? entry.items ?? [] : [entry])
+      .filter((entry: any) => entry.type === 'function')
+      .map((entry: any) => entry.name as string)
+  );
+}
+
+/**
+ * Ask a contract whether it supports an SRC5 interface
+ * @returns The answer, or null if the call failed
+ */
+async function supportsInterface(address: string, entrypoint: string, interfaceId: string, network: string): Promise<boolean | null> {
+  try {
+    const [result] = await getProvider(network).callContract({
+      contractAddress: address,
+      entrypoint,
+      calldata: [interfaceId]
+    }, 'latest');
+    return num.toBigInt(result) !== BigInt(0);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the implementation class hash of a Cairo 0 proxy
+ * @returns The class hash, or null if the proxy exposes no known getter
+ */
+async function getImplementationClassHash(address: string, names: Set<string>, network: string): Promise<string | null> {
+  const getter = IMPLEMENTATION_GETTERS.find(name => names.has(name));
+  if (!getter) return null;
+
+  try {
+    const [implementation] = await getProvider(network).callContract({ contractAddress: address, entrypoint: getter }, 'latest');
+    return num.toHex(implementation);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Classify an address: account (with wallet vendor), multisig, ERC20/721/1155 token,
+ * proxy or other contract
+ * Combines known class hashes, SRC5 `supports_interface` and ABI heuristics. On Starknet
+ * every account is a contract, so an address without a class is reported as undeployed.
+ * @param address The address to classify (already resolved)
+ * @param network Network name (mainnet, sepolia)
+ * @returns The classification and the evidence it is based on
+ */
+export async function classifyAddress(address: string, network = 'mainnet'): Promise<AddressClassification> {
+  const formattedAddress = parseStarknetAddress(address);
+  const provider = getProvider(network);
+  const evidence: string[] = [];
+
+  let classHash: string;
+  try {
+    classHash = num.toHex(await provider.getClassHashAt(formattedAddress, 'latest'));
+  } catch {
+    return {
+      address: formattedAddress,
+      deployed: false,
+      classHash: null,
+      implementationClassHash: null,
+      type: 'undeployed',
+      wallet: null,
+      tags: [],
+      interfaces: {},
+      evidence: ['No contract is deployed at this address (it may be a counterfactual account that is not deployed yet)']
+    };
+  }
+
+  let abi = await getAbiForClassHash(classHash, provider);
+  let names = functionNames(abi);
+  const tags = new Set<string>();
+  let implementationClassHash: string | null = null;
+
+  // Cairo 0 proxies forward everything to their implementation, whose ABI is the relevant one
+  if (names.has('__default__')) {
+    tags.add('proxy');
+    implementationClassHash = await getImplementationClassHash(formattedAddress, names, network);
+    if (implementationClassHash) {
+      evidence.push(`Proxy delegating to class ${implementationClassHash}`);
+      abi = await getAbiForClassHash(implementationClassHash, provider);
+      names = new Set([...names, ...functionNames(abi)]);
+    } else {
+      evidence.push('Proxy whose implementation could not be read');
+    }
+  }
+
+  const standards: ContractStandard[] = detectStandards(abi);
+  standards.filter(standard => standard !== 'proxy').forEach(standard => tags.add(standard));
+  if (standards.length > 0) {
+    evidence.push(`ABI matches ${standards.join(', ')}`);
+  }
+
+  // SRC5 introspection, for contracts that implement it
+  const interfaces: Record<string, boolean> = {};
+  const src5Entrypoint = names.has('supports_interface') ? 'supports_interface' : names.has('supportsInterface') ? 'supportsInterface' : null;
+  if (src5Entrypoint) {
+    for (const [name, ids] of Object.entries(SRC5_INTERFACES)) {
+      for (const id of ids) {
+        if (await supportsInterface(formattedAddress, src5Entrypoint, id, network)) {
+          interfaces[name] = true;
+          break;
+        }
+      }
+      interfaces[name] = interfaces[name] ?? false;
+      if (interfaces[name]) {
+        tags.add(name);
+        evidence.push(`supports_interface(${name}) returned true`);
+      }
+    }
+  }
+
+  // Wallet vendor: known class hashes first, then vendor-specific functions
+  const known = KNOWN_ACCOUNT_CLASSES[classHash] ?? (implementationClassHash ? KNOWN_ACCOUNT_CLASSES[implementationClassHash] : undefined);
+  const isAccount = tags.has('account') || tags.has('SRC6') || !!known;
+  let wallet: WalletVendor | null = null;
+  if (known) {
+    wallet = known.wallet;
+    evidence.push(`Known ${known.wallet} account class (${known.version})`);
+  } else if (isAccount) {
+    wallet = VENDOR_FUNCTIONS.find(({ functions }) => functions.some(name => names.has(name)))?.wallet ?? null;
+    if (wallet) {
+      evidence.push(`ABI has ${wallet}-specific functions`);
+    }
+  }
+
+  const isMultisig = isAccount && MULTISIG_FUNCTIONS.some(pair => pair.every(name => names.has(name)));
+  if (isAccount) tags.add('account');
+  if (isMultisig) {
+    tags.add('multisig');
+    evidence.push('ABI has multisig signer and threshold functions');
+  }
+  if (wallet) tags.add(wallet);
+
+  const type: AddressType = isMultisig ? 'multisig'
+    : isAccount ? 'account'
+    : tags.has('ERC1155') ? 'erc1155'
+    : tags.has('ERC721') ? 'erc721'
+    : tags.has('ERC20') ? 'erc20'
+    : 'contract';
+
+  return {
+    address: formattedAddress,
+    deployed: true,
+    classHash,
+    implementationClassHash,
+    type,
+    wallet,
+    tags: Array.from(tags),
+    interfaces,
+    evidence
+  };
+}
@@ -6,17 +6,14 @@ import {
   constants,
   validateAndParseAddress
 } from 'starknet';
-import { getRpcUrl } from '../chains.js';
+import { getRpcUrl, getChainId } from '../chains.js';
+import { createCachedFetch } from './cache.js';
+import { getAbiForAddress } from './abis.js';
+import { getRegisteredAccount, isPrivateKeyInputAllowed } from './accounts.js';
 
 // Cache for providers to avoid recreating them for each request
 const providerCache = new Map<string, RpcProvider>();
 
-// Map of network names to chain IDs for cleaner code
-const CHAIN_IDS = {
-  mainnet: constants.StarknetChainId.SN_MAIN,
-  sepolia: constants.StarknetChainId.SN_SEPOLIA
-};
-
 /**
  * Get a RPC provider for a specific network
  * @param network Network name (mainnet, sepolia)
@@ -33,33 +30,91 @@ export function getProvider(network = 'mainnet'): RpcProvider {
   // Get the RPC URL for the network
   const rpcUrl = getRpcUrl(network);
   
-  // Get chain ID, defaulting to mainnet if not recognized
-  const chainId = CHAIN_IDS[network as keyof typeof CHAIN_IDS] || CHAIN_IDS.mainnet;
+  // Get chain ID (verified at startup for user-defined networks)
+  const chainId = (getChainId(network) || undefined) as constants.StarknetChainId | undefined;
   
-  // Create and cache the provider
-  const provider = new RpcProvider({ nodeUrl: rpcUrl, chainId });
+  // Create and cache the provider, routing requests through the response cache and endpoint pool
+  const provider = new RpcProvider({ nodeUrl: rpcUrl, chainId, baseFetch: createCachedFetch(network) });
   providerCache.set(cacheKey, provider);
   
   return provider;
 }
 
+// Cache for batching providers, kept apart so single requests still go through the response cache
+const batchProviderCache = new Map<string, RpcProvider>();
+
+/**
+ * Get a RPC provider that sends the requests made in the same tick as one JSON-RPC batch
+ * @param network Network name (mainnet, sepolia)
+ * @returns Batching RPC provider instance
+ */
+export function getBatchProvider(network = 'mainnet'): RpcProvider {
+  const cacheKey = String(network);
+
+  if (batchProviderCache.has(cacheKey)) {
+    return batchProviderCache.get(cacheKey)!;
+  }
+
+  const chainId = (getChainId(network) || undefined) as constants.StarknetChainId | undefined;
+  const provider = new RpcProvider({
+    nodeUrl: getRpcUrl(network),
+    chainId,
+    baseFetch: createCachedFetch(network),
+    batch: 0
+  });
+  batchProviderCache.set(cacheKey, provider);
+
+  return provider;
+}
+
 /**
- * Create an account instance for a specific network and private key
- * @param privateKey The private key in hex format (with or without 0x prefix)
- * @param accountAddress The address of the deployed account contract
+ * How a write operation is signed: either the alias of a configured account,
+ * or a raw private key together with the account address
+ */
+export interface AccountSigner {
+  account?: string;
+  privateKey?: string;
+  address?: string;
+}
+
+/**
+ * Create an account instance for a specific network
+ * @param signer Account alias, or private key and account address
  * @param network Network name (mainnet, sepolia)
  * @returns Account instance
  */
 export function getAccount(
-  privateKey: string, 
-  accountAddress: string, 
+  signer: AccountSigner,
   network = 'mainnet'
 ): Account {
   const provider = getProvider(network);
   
+  // Resolve a configured account alias to its signer and address
+  if (signer.account) {
+    const registered = getRegisteredAccount(signer.account, network);
+    
+    if (signer.address && parseStarknetAddress(signer.address) !== registered.address) {
+      throw new Error(`Address ${signer.address} does not match account "${registered.alias}" (${registered.address})`);
+    }
+    
+    return new Account(provider, registered.address, registered.privateKey);
+  }
+  
+  if (!signer.privateKey) {
+    throw new Error('No signer provided: pass a configured account alias');
+  }
+  
+  if (!isPrivateKeyInputAllowed()) {
+    throw new Error('Raw private keys are disabled on this server: use a configured account alias instead');
+  }
+  
+  if (!signer.address) {
+    throw new Error('An account address is required when signing with a private key');
+  }
+  
   // Ensure the private key has the proper format
-  const formattedPrivateKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
-  const formattedAddress = parseStarknetAddress(accountAddress);
+  const formattedPrivateKey = signer.privateKey.startsWith('0x') ? signer.privateKey : `0x${signer.privateKey}`;
+  const formattedAddress = parseStarknetAddress(signer.address);
   
   return new Account(
     provider,
@@ -83,9 +138,8 @@ export async function getContract(
   const contractProvider = provider || getProvider(network);
   const formattedAddress = parseStarknetAddress(contractAddress);
   
-  // Fetch the contract class using getClassAt to get the ABI
-  const contractClass = await contractProvider.getClassAt(formattedAddress);
-  const abi = contractClass.abi || [];
+  // Resolve the class hash and reuse the ABI stored for that class
+  const { abi } = await getAbiForAddress(formattedAddress, contractProvider);
   
   return new Contract(
     abi,
@@ -0,0 +1,154 @@
+import { getProvider, parseStarknetAddress } from './clients.js';
+import { explainTransaction, type TransactionExplanation } from './explainer.js';
+import { decodeRevertReason } from './trace.js';
+
+/**
+ * Finality status a wait can target, in the order transactions reach them
+ */
+export type FinalityTarget = 'RECEIVED' | 'ACCEPTED_ON_L2' | 'ACCEPTED_ON_L1';
+
+/**
+ * Progress of a wait, reported each time the finality status advances
+ */
+export interface WaitProgress {
+  finality: string; // NOT_RECEIVED, RECEIVED, ACCEPTED_ON_L2, ACCEPTED_ON_L1 or REJECTED
+  execution: string | null;
+  step: number; // Position of the status on the way to the target
+  total: number; // Position of the target
+  elapsedMs: number;
+}
+
+/**
+ * Options of a wait for a transaction
+ */
+export interface WaitOptions {
+  target?: FinalityTarget; // Defaults to ACCEPTED_ON_L2
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  onProgress?: (progress: WaitProgress) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of waiting for a transaction
+ */
+export interface WaitResult {
+  txHash: string;
+  finality: string;
+  execution: string | null;
+  reachedTarget: boolean;
+  timedOut: boolean;
+  elapsedMs: number;
+  revertReason: string | null;
+  receipt: TransactionExplanation | null; // Decoded receipt, once the transaction is in a block
+}
+
+const FINALITY_STEPS = ['NOT_RECEIVED', 'RECEIVED', 'ACCEPTED_ON_L2', 'ACCEPTED_ON_L1'];
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const MAX_TIMEOUT_MS = 900_000;
+const DEFAULT_POLL_INTERVAL_MS = 3_000;
+const MIN_POLL_INTERVAL_MS = 1_000;
+
+/**
+ * Sleep, waking up early if the wait is cancelled
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.resolve();
+
+  return new Promise(resolve => {
+    // The listener is removed when the timer fires, so polls do not pile listeners on the signal
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Get the finality and execution status of a transaction
+ * Nodes answer with an error for transactions they have not received yet.
+ */
+async function getStatus(txHash: string, network: string): Promise<{ finality: string; execution: string | null }> {
+  try {
+    const status: any = await getProvider(network).getTransactionStatus(txHash);
+    return { finality: status.finality_status, execution: status.execution_status ?? null };
+  } catch {
+    return { finality: 'NOT_RECEIVED', execution: null };
+  }
+}
+
+/**
+ * Wait for a transaction to reach a finality status, reporting progress as it advances
+ * Stops early when the transaction is rejected. Reverted transactions are still accepted,
+ * so they reach their target with the revert reason reported.
+ * @param txHash Transaction hash
+ * @param options Target status (default ACCEPTED_ON_L2), timeout (default 2 minutes, at most
+ * 15), poll interval, progress callback and cancellation signal
+ * @param network Network name (mainnet, sepolia)
+ * @returns The last status seen and the decoded receipt
+ */
+export async function waitForTransaction(
+  txHash: string,
+  options: WaitOptions = {},
+  network = 'mainnet'
+): Promise<WaitResult> {
+  const formattedTxHash = parseStarknetAddress(txHash);
+  const target = options.target ?? 'ACCEPTED_ON_L2';
+  const total = FINALITY_STEPS.indexOf(target);
+  const timeoutMs = Math.min(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS);
+  const pollIntervalMs = Math.max(options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS, MIN_POLL_INTERVAL_MS);
+  const startedAt = Date.now();
+
+  let status = { finality: 'NOT_RECEIVED', execution: null as string | null };
+  let reported: string | null = null;
+
+  while (true) {
+    status = await getStatus(formattedTxHash, network);
+    const elapsedMs = Date.now() - startedAt;
+
+    if (status.finality !== reported) {
+      reported = status.finality;
+      await options.onProgress?.({
+        ...status,
+        step: Math.min(Math.max(FINALITY_STEPS.indexOf(status.finality), 0), total),
+        total,
+        elapsedMs
+      });
+    }
+
+    const done = status.finality === 'REJECTED' || FINALITY_STEPS.indexOf(status.finality) >= total;
+    if (done || elapsedMs >= timeoutMs || options.signal?.aborted) break;
+
+    await sleep(Math.min(pollIntervalMs, timeoutMs - elapsedMs), options.signal);
+  }
+
+  const elapsedMs = Date.now() - startedAt;
+  const reachedTarget = FINALITY_STEPS.indexOf(status.finality) >= total;
+
+  // Receipts exist once the transaction is in a block
+  let receipt: TransactionExplanation | null = null;
+  if (FINALITY_STEPS.indexOf(status.finality) >= FINALITY_STEPS.indexOf('ACCEPTED_ON_L2')) {
+    try {
+      receipt = await explainTransaction(formattedTxHash, network);
+    } catch (error) {
+      console.error(`Error decoding receipt of ${formattedTxHash}:`, error);
+    }
+  }
+
+  return {
+    txHash: formattedTxHash,
+    finality: status.finality,
+    execution: status.execution,
+    reachedTarget,
+    timedOut: !reachedTarget && status.finality !== 'REJECTED' && !options.signal?.aborted,
+    elapsedMs,
+    revertReason: receipt?.revertReason ? decodeRevertReason(receipt.revertReason).message : null,
+    receipt
+  };
+}
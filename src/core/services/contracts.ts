@@ -1,6 +1,8 @@
 import { getProvider, parseStarknetAddress } from './clients.js';
 import { CallData, BlockTag } from 'starknet';
 import { utils as helpers } from './utils.js';
+import { getAbiForAddress } from './abis.js';
+import { decodeResult, encodeCalldata, type NamedArgs } from './calldata.js';
 
 // Default block tag to use for queries
 const DEFAULT_BLOCK_TAG: BlockTag = 'latest';
@@ -57,7 +59,7 @@ export async function getClass(
 
 /**
  * Call a read-only function on a contract
- * @param params Call parameters
+ * @param params Call parameters: raw `calldata`, or `args` encoded with the contract's ABI
  * @param network Network name (mainnet, sepolia)
  * @returns The result of the call
  */
@@ -66,16 +68,17 @@ export async function callContract(
     contractAddress: string;
     entrypoint: string;
     calldata?: any[];
+    args?: NamedArgs; // Named (or ordered) arguments, encoded using the contract's ABI
   },
   network = 'mainnet'
 ) {
   const provider = getProvider(network);
   const formattedAddress = parseStarknetAddress(params.contractAddress);
   
-  // Format calldata with StarknetJS's CallData utility
-  const calldata = params.calldata ? 
-    CallData.compile(params.calldata) : 
-    [];
+  // Format calldata with StarknetJS's CallData utility, or from the ABI for named arguments
+  const calldata = params.args !== undefined ?
+    await encodeContractArgs(formattedAddress, params.entrypoint, params.args, network) :
+    params.calldata ? CallData.compile(params.calldata) : [];
   
   const result = await provider.callContract({
     contractAddress: formattedAddress,
@@ -86,6 +89,42 @@ export async function callContract(
   return result;
 }
 
+/**
+ * Encode the arguments of a contract function using the contract's ABI
+ * @param contractAddress Contract address
+ * @param entrypoint Function name
+ * @param args Arguments keyed by name, or in declaration order
+ * @param network Network name (mainnet, sepolia)
+ * @returns The compiled calldata
+ */
+export async function encodeContractArgs(
+  contractAddress: string,
+  entrypoint: string,
+  args: NamedArgs,
+  network = 'mainnet'
+): Promise<string[]> {
+  const { abi } = await getAbiForAddress(parseStarknetAddress(contractAddress), getProvider(network));
+  return encodeCalldata(abi, entrypoint, args);
+}
+
+/**
+ * Decode the raw result of a contract call using the contract's ABI
+ * @param contractAddress Contract address
+ * @param entrypoint Function name
+ * @param result Raw felts returned by the call
+ * @param network Network name (mainnet, sepolia)
+ * @returns The return value as typed JSON
+ */
+export async function decodeCallResult(
+  contractAddress: string,
+  entrypoint: string,
+  result: string[],
+  network = 'mainnet'
+): Promise<unknown> {
+  const { abi } = await getAbiForAddress(parseStarknetAddress(contractAddress), getProvider(network));
+  return decodeResult(abi, entrypoint, result);
+}
+
 /**
  * Format contract call results based on expected types
  * @param result Raw result from contract call
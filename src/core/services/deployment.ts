@@ -0,0 +1,302 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  CallData,
+  constants,
+  ec,
+  extractContractHashes,
+  hash,
+  num,
+  stark,
+  type CompiledSierra,
+  type CompiledSierraCasm
+} from 'starknet';
+import { getAccount, getProvider } from './clients.js';
+import { getAbiForClassHash } from './abis.js';
+import { encodeCalldata, getAbiConstructor, type NamedArgs } from './calldata.js';
+import { checkContractCall, PolicyViolationError } from './guardrails.js';
+import { isDryRunDefault, simulateDeclare, type SimulationReport } from './simulation.js';
+import { getDefaultFeeToken, resolveFeeDetails, type FeeOptions, type FeeSummary } from './fees.js';
+import { executeTransaction } from './transfer.js';
+import { submitWithNonce } from './nonces.js';
+import type { PaymasterOptions, PaymasterReceipt } from './paymaster.js';
+
+/**
+ * Signer parameters shared by declare and deploy
+ */
+interface DeploymentSignerParams extends FeeOptions {
+  account?: string; // Alias of a configured account
+  privateKey?: string;
+  accountAddress?: string;
+  dryRun?: boolean; // Simulate without broadcasting; defaults to the server setting
+}
+
+/**
+ * Result of declaring a class
+ */
+export interface DeclareResult {
+  classHash: string;
+  compiledClassHash: string;
+  alreadyDeclared: boolean;
+  txHash: string | null; // Null when the class was already declared
+  fee: FeeSummary | null;
+}
+
+/**
+ * Result of deploying a contract through the Universal Deployer
+ */
+export interface DeployResult {
+  classHash: string;
+  address: string;
+  txHash: string;
+  salt: string;
+  unique: boolean;
+  constructorCalldata: string[];
+  fee: FeeSummary | null; // Null when a paymaster submitted the transaction without reporting its fee
+  paymaster?: PaymasterReceipt;
+}
+
+/**
+ * Simulated deployment, with the address the contract would be deployed at
+ */
+export type DeploySimulation = SimulationReport & {
+  classHash: string;
+  address: string;
+  salt: string;
+  unique: boolean;
+  constructorCalldata: string[];
+};
+
+/**
+ * Read a JSON compilation artifact from disk
+ * @param path Path to the artifact, relative to the working directory
+ * @param kind Artifact description used in error messages
+ */
+function readArtifact<T>(path: string, kind: string): T {
+  const file = resolve(path);
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as T;
+  } catch (error) {
+    throw new Error(`Could not read ${kind} ${file}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Load the Scarb artifacts of a Cairo 1 class and compute its hashes
+ * @param contractClassPath Path of the Sierra artifact (`.contract_class.json`)
+ * @param compiledClassPath Path of the CASM artifact (`.compiled_contract_class.json`)
+ * @returns The class hash, compiled class hash and declare payload
+ */
+export function loadClassArtifacts(contractClassPath: string, compiledClassPath: string): {
+  classHash: string;
+  compiledClassHash: string;
+  payload: { contract: CompiledSierra; casm: CompiledSierraCasm; compiledClassHash: string };
+} {
+  const contract = readArtifact<CompiledSierra>(contractClassPath, 'contract class');
+  const casm = readArtifact<CompiledSierraCasm>(compiledClassPath, 'compiled contract class');
+
+  if (!('sierra_program' in contract)) {
+    throw new Error(`${contractClassPath} is not a Sierra contract class`);
+  }
+  if (!('bytecode' in casm)) {
+    throw new Error(`${compiledClassPath} is not a compiled (CASM) contract class`);
+  }
+
+  const { classHash, compiledClassHash } = extractContractHashes({ contract, casm });
+  return {
+    classHash,
+    compiledClassHash: compiledClassHash!,
+    payload: { contract, casm, compiledClassHash: compiledClassHash! }
+  };
+}
+
+/**
+ * Check whether a class is declared on a network
+ */
+async function isDeclared(classHash: string, network: string): Promise<boolean> {
+  try {
+    await getProvider(network).getClassByHash(classHash);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Declare a Cairo 1 class from its Scarb artifacts, unless it is already declared
+ * @param params Paths of the Sierra (`.contract_class.json`) and CASM
+ * (`.compiled_contract_class.json`) artifacts, signer and fee options
+ * @param network Network name (mainnet, sepolia)
+ * @returns Class hash and declare transaction, or the simulation report in dry-run mode
+ */
+export async function declareClass(
+  params: DeploymentSignerParams & {
+    contractClassPath: string;
+    compiledClassPath: string;
+  },
+  network = 'mainnet'
+): Promise<DeclareResult | (SimulationReport & { classHash: string; compiledClassHash: string })> {
+  try {
+    const { classHash, compiledClassHash, payload } = loadClassArtifacts(params.contractClassPath, params.compiledClassPath);
+
+    if (await isDeclared(classHash, network)) {
+      return {
+        classHash,
+        compiledClassHash,
+        alreadyDeclared: true,
+        txHash: null,
+        fee: null
+      };
+    }
+
+    // Create account instance from the account alias or private key
+    const account = getAccount({
+      account: params.account,
+      privateKey: params.privateKey,
+      address: params.accountAddress
+    }, network);
+
+    // Sierra classes are declared with V2 transactions when paying in ETH
+    if (params.dryRun ?? isDryRunDefault()) {
+      const version = (params.feeToken ?? getDefaultFeeToken()) === 'STRK'
+        ? constants.TRANSACTION_VERSION.V3
+        : constants.TRANSACTION_VERSION.V2;
+      const report = await simulateDeclare(account, payload, network, { version });
+      return { ...report, classHash, compiledClassHash };
+    }
+
+    const { details, fee } = await resolveFeeDetails(
+      estimateDetails => account.estimateDeclareFee(payload, estimateDetails),
+      params,
+      2
+    );
+    const response = await submitWithNonce(account, network, nonce => account.declare(payload, { ...details, nonce }));
+
+    return {
+      classHash: response.class_hash,
+      compiledClassHash,
+      alreadyDeclared: false,
+      txHash: response.transaction_hash,
+      fee
+    };
+  } catch (error) {
+    console.error('Error declaring class:', error);
+    throw new Error(`Class declaration failed: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Encode constructor arguments against the ABI of a declared class
+ * @param classHash The class to deploy
+ * @param network Network name
+ * @param constructorArgs Arguments as an array in declaration order, or an object keyed by name
+ * @param constructorCalldata Raw calldata, used as given when no arguments are provided
+ * @returns The compiled constructor calldata
+ */
+async function encodeConstructorCalldata(
+  classHash: string,
+  network: string,
+  constructorArgs?: NamedArgs,
+  constructorCalldata?: string[]
+): Promise<string[]> {
+  if (constructorArgs !== undefined && constructorCalldata !== undefined) {
+    throw new Error('Pass either constructorArgs or constructorCalldata, not both');
+  }
+
+  let abi;
+  try {
+    abi = await getAbiForClassHash(classHash, getProvider(network));
+  } catch (error) {
+    throw new Error(`Class ${classHash} is not declared on ${network}: ${(error as Error).message}`);
+  }
+
+  if (constructorCalldata !== undefined) {
+    return CallData.compile(constructorCalldata);
+  }
+
+  if (!getAbiConstructor(abi)) {
+    if (constructorArgs !== undefined && (Array.isArray(constructorArgs) ? constructorArgs.length : Object.keys(constructorArgs).length)) {
+      throw new Error(`Class ${classHash} has no constructor but constructor arguments were given`);
+    }
+    return [];
+  }
+
+  return encodeCalldata(abi, 'constructor', constructorArgs ?? []);
+}
+
+/**
+ * Deploy an instance of a declared class through the Universal Deployer Contract
+ * @param params Class hash, constructor arguments, salt, signer and fee options
+ * @param network Network name (mainnet, sepolia)
+ * @returns The deployed address and transaction, or the simulation report in dry-run mode
+ */
+export async function deployContract(
+  params: DeploymentSignerParams & PaymasterOptions & {
+    classHash: string;
+    constructorArgs?: NamedArgs; // Encoded against the class ABI
+    constructorCalldata?: string[]; // Raw felts, used as given
+    salt?: string; // Random when omitted
+    unique?: boolean; // Mix the deployer address into the salt (UDC default)
+  },
+  network = 'mainnet'
+): Promise<DeployResult | DeploySimulation> {
+  try {
+    const classHash = num.toHex(params.classHash);
+    const constructorCalldata = await encodeConstructorCalldata(
+      classHash,
+      network,
+      params.constructorArgs,
+      params.constructorCalldata
+    );
+
+    // Create account instance from the account alias or private key
+    const account = getAccount({
+      account: params.account,
+      privateKey: params.privateKey,
+      address: params.accountAddress
+    }, network);
+
+    // Enforce the contract allowlist on the Universal Deployer before anything is signed
+    await checkContractCall({
+      network,
+      contractAddress: constants.UDC.ADDRESS,
+      contractInput: constants.UDC.ADDRESS,
+      entrypoint: constants.UDC.ENTRYPOINT
+    });
+
+    const salt = num.toHex(params.salt ?? stark.randomAddress());
+    const unique = params.unique ?? true;
+
+    // Same address derivation as the UDC: unique deployments are bound to the deployer
+    const address = num.toHex(hash.calculateContractAddressFromHash(
+      unique ? ec.starkCurve.pedersen(account.address, salt) : salt,
+      classHash,
+      constructorCalldata,
+      unique ? constants.UDC.ADDRESS : 0
+    ));
+
+    const tx = {
+      contractAddress: constants.UDC.ADDRESS,
+      entrypoint: constants.UDC.ENTRYPOINT,
+      calldata: CallData.compile([classHash, salt, unique ? 1 : 0, constructorCalldata.length, ...constructorCalldata])
+    };
+
+    const result = await executeTransaction(account, tx, params, network, null, params.dryRun);
+    const deployment = { classHash, address, salt, unique, constructorCalldata };
+
+    if ('dryRun' in result) {
+      return { ...result, ...deployment };
+    }
+
+    return {
+      ...deployment,
+      txHash: result.txHash,
+      fee: result.fee,
+      ...(result.paymaster && { paymaster: result.paymaster })
+    };
+  } catch (error) {
+    if (error instanceof PolicyViolationError) throw error;
+    console.error('Error deploying contract:', error);
+    throw new Error(`Contract deployment failed: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,348 @@
+import { getRpcUrls } from '../chains.js';
+import { getConfig } from '../config.js';
+
+// Default pool tuning, overridable through the `rpc` section of the config file
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 60_000;
+
+// Cooldown applied to a failing endpoint, doubled per consecutive failure up to the max
+const BASE_COOLDOWN_MS = 5_000;
+const MAX_COOLDOWN_MS = 300_000;
+
+// Delay before the first retry round, doubled for each subsequent round
+const BASE_BACKOFF_MS = 250;
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+
+// JSON-RPC methods that submit transactions and must not be blindly retried
+const WRITE_METHODS = new Set([
+  'starknet_addInvokeTransaction',
+  'starknet_addDeclareTransaction',
+  'starknet_addDeployAccountTransaction'
+]);
+
+/**
+ * Health and latency statistics for a single RPC endpoint
+ */
+interface EndpointState {
+  url: string;
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  cooldownUntil: number;
+  lastError: string | null;
+  lastCheckedAt: number | null;
+}
+
+/**
+ * Endpoint pool for a network
+ */
+interface EndpointPool {
+  network: string;
+  endpoints: EndpointState[];
+  activeUrl: string;
+}
+
+/**
+ * Reported health of an RPC endpoint
+ */
+export interface EndpointStatus {
+  url: string; // Redacted with redactRpcUrl
+  active: boolean;
+  healthy: boolean;
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  coolingDownUntil: string | null;
+  lastError: string | null;
+  lastCheckedAt: string | null;
+}
+
+// Endpoint pools keyed by network name
+const pools = new Map<string, EndpointPool>();
+
+/**
+ * Error raised for a retryable endpoint failure (timeout, connection error, 5xx, 429)
+ */
+class EndpointError extends Error {
+  constructor(message: string, public readonly connectionFailed: boolean) {
+    super(message);
+    this.name = 'EndpointError';
+  }
+}
+
+/**
+ * Get (or create) the endpoint pool for a network
+ * @param network Network name
+ * @returns The endpoint pool
+ */
+function getPool(network: string): EndpointPool {
+  const key = network.toLowerCase();
+
+  if (pools.has(key)) {
+    return pools.get(key)!;
+  }
+
+  const urls = getRpcUrls(network);
+  const pool: EndpointPool = {
+    network: key,
+    endpoints: urls.map(url => ({
+      url,
+      latencyMs: null,
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      cooldownUntil: 0,
+      lastError: null,
+      lastCheckedAt: null
+    })),
+    activeUrl: urls[0]
+  };
+  pools.set(key, pool);
+
+  // Periodically re-measure every endpoint so fallbacks get ranked before they are needed
+  const interval = getConfig().rpc?.healthCheckIntervalMs ?? DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+  if (urls.length > 1 && interval > 0) {
+    setInterval(() => {
+      checkEndpointHealth(key).catch(error => {
+        console.error(`Error checking RPC endpoints for ${key}:`, error);
+      });
+    }, interval).unref();
+  }
+
+  return pool;
+}
+
+/**
+ * Order endpoints by preference: available before cooling down, then by measured latency,
+ * then by configured order (unmeasured endpoints keep their configured position)
+ * @param pool The endpoint pool
+ * @returns Endpoints in the order they should be tried
+ */
+function rankEndpoints(pool: EndpointPool): EndpointState[] {
+  const now = Date.now();
+
+  return pool.endpoints
+    .map((endpoint, index) => ({ endpoint, index }))
+    .sort((a, b) => {
+      const aCooling = a.endpoint.cooldownUntil > now;
+      const bCooling = b.endpoint.cooldownUntil > now;
+      if (aCooling !== bCooling) return aCooling ? 1 : -1;
+      if (aCooling && bCooling) return a.endpoint.cooldownUntil - b.endpoint.cooldownUntil;
+
+      const aLatency = a.endpoint.latencyMs ?? Number.MAX_SAFE_INTEGER;
+      const bLatency = b.endpoint.latencyMs ?? Number.MAX_SAFE_INTEGER;
+      return aLatency !== bLatency ? aLatency - bLatency : a.index - b.index;
+    })
+    .map(({ endpoint }) => endpoint);
+}
+
+/**
+ * Record a successful request against an endpoint
+ */
+function recordSuccess(endpoint: EndpointState, latencyMs: number) {
+  endpoint.totalRequests += 1;
+  endpoint.consecutiveFailures = 0;
+  endpoint.cooldownUntil = 0;
+  endpoint.lastCheckedAt = Date.now();
+  endpoint.latencyMs = endpoint.latencyMs === null
+    ? latencyMs
+    : Math.round(LATENCY_SMOOTHING * latencyMs + (1 - LATENCY_SMOOTHING) * endpoint.latencyMs);
+}
+
+/**
+ * Record a failed request against an endpoint and put it on cooldown
+ */
+function recordFailure(endpoint: EndpointState, error: Error) {
+  endpoint.totalRequests += 1;
+  endpoint.totalFailures += 1;
+  endpoint.consecutiveFailures += 1;
+  endpoint.lastError = error.message;
+  endpoint.lastCheckedAt = Date.now();
+  endpoint.cooldownUntil = Date.now() + Math.min(
+    BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveFailures - 1),
+    MAX_COOLDOWN_MS
+  );
+}
+
+/**
+ * Mask the credentials an RPC URL may carry before it is shown to a client
+ * Providers often put the API key in the path or query string, so only the scheme, host and
+ * port are kept.
+ * @param url Endpoint URL
+ * @returns The URL with its user info, path and query masked
+ */
+export function redactRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const hidden = parsed.username || parsed.password || parsed.pathname.length > 1 || parsed.search || parsed.hash;
+    return `${parsed.protocol}//${parsed.host}${hidden ? '/***' : ''}`;
+  } catch {
+    return '***';
+  }
+}
+
+/**
+ * Send a request to a single endpoint with a timeout
+ * @param url Endpoint URL
+ * @param init Fetch options
+ * @param timeoutMs Request timeout
+ * @returns The response, if the endpoint answered without a server-side failure
+ */
+async function sendToEndpoint(url: string, init: RequestInit | undefined, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+
+    if (response.status >= 500 || response.status === 429) {
+      throw new EndpointError(`HTTP ${response.status} ${response.statusText}`, false);
+    }
+
+    return response;
+  } catch (error) {
+    if (error instanceof EndpointError) throw error;
+    if (controller.signal.aborted) {
+      throw new EndpointError(`Timed out after ${timeoutMs}ms`, false);
+    }
+    throw new EndpointError((error as Error).message, true);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Check whether a JSON-RPC request body only contains idempotent (read) methods
+ * @param body The serialized request body
+ * @returns True if the request can safely be retried
+ */
+function isIdempotentRequest(body: unknown): boolean {
+  if (typeof body !== 'string') return false;
+
+  try {
+    const parsed = JSON.parse(body);
+    const requests = Array.isArray(parsed) ? parsed : [parsed];
+    return requests.every(request => !WRITE_METHODS.has(request?.method));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Send a JSON-RPC request through the endpoint pool of a network
+ * Reads fail over to the next endpoint on timeouts, connection errors and 5xx responses,
+ * with exponential backoff between rounds. Writes only fail over when the connection could
+ * not be established, so a transaction is never submitted twice because of a slow node.
+ * @param network Network name
+ * @param init Fetch options (method, body, headers)
+ * @returns The response from the first endpoint that answered
+ */
+export async function poolFetch(network: string, init?: RequestInit): Promise<Response> {
+  const pool = getPool(network);
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = getConfig().rpc ?? {};
+  const idempotent = isIdempotentRequest(init?.body);
+  const rounds = idempotent ? retries + 1 : 1;
+
+  let lastError: Error | null = null;
+
+  for (let round = 0; round < rounds; round++) {
+    if (round > 0) {
+      await new Promise(resolve => setTimeout(resolve, BASE_BACKOFF_MS * 2 ** (round - 1)));
+    }
+
+    for (const endpoint of rankEndpoints(pool)) {
+      const startedAt = Date.now();
+
+      try {
+        const response = await sendToEndpoint(endpoint.url, init, timeoutMs);
+        recordSuccess(endpoint, Date.now() - startedAt);
+        pool.activeUrl = endpoint.url;
+        return response;
+      } catch (error) {
+        const endpointError = error as EndpointError;
+        recordFailure(endpoint, endpointError);
+        lastError = endpointError;
+        console.error(`RPC endpoint ${endpoint.url} failed for ${pool.network}: ${endpointError.message}`);
+
+        if (!idempotent && !endpointError.connectionFailed) {
+          throw new Error(`RPC request to ${redactRpcUrl(endpoint.url)} failed: ${endpointError.message}`);
+        }
+      }
+    }
+  }
+
+  throw new Error(`All RPC endpoints failed for network ${pool.network}: ${lastError?.message ?? 'no endpoints configured'}`);
+}
+
+/**
+ * Probe every endpoint of a network with starknet_blockNumber and update its health score
+ * @param network Network name
+ * @returns The refreshed endpoint status
+ */
+export async function checkEndpointHealth(network = 'mainnet'): Promise<EndpointStatus[]> {
+  const pool = getPool(network);
+  const { timeoutMs = DEFAULT_TIMEOUT_MS } = getConfig().rpc ?? {};
+  const body = JSON.stringify({ id: 1, jsonrpc: '2.0', method: 'starknet_blockNumber' });
+
+  await Promise.all(pool.endpoints.map(async (endpoint) => {
+    const startedAt = Date.now();
+
+    try {
+      const response = await sendToEndpoint(endpoint.url, {
+        method: 'POST',
+        body,
+        headers: { 'Content-Type': 'application/json' }
+      }, timeoutMs);
+      const { error } = await response.json();
+
+      if (error) {
+        throw new EndpointError(error.message || 'JSON-RPC error', false);
+      }
+
+      recordSuccess(endpoint, Date.now() - startedAt);
+    } catch (error) {
+      recordFailure(endpoint, error as Error);
+    }
+  }));
+
+  pool.activeUrl = rankEndpoints(pool)[0].url;
+
+  return getEndpointStatus(network);
+}
+
+/**
+ * Get the current health of every endpoint in a network's pool
+ * @param network Network name
+ * @returns Endpoint status, in configured order, with the URLs redacted
+ */
+export function getEndpointStatus(network = 'mainnet'): EndpointStatus[] {
+  const pool = getPool(network);
+  const now = Date.now();
+
+  return pool.endpoints.map(endpoint => ({
+    url: redactRpcUrl(endpoint.url),
+    active: endpoint.url === pool.activeUrl,
+    healthy: endpoint.cooldownUntil <= now,
+    latencyMs: endpoint.latencyMs,
+    consecutiveFailures: endpoint.consecutiveFailures,
+    totalRequests: endpoint.totalRequests,
+    totalFailures: endpoint.totalFailures,
+    coolingDownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil).toISOString() : null,
+    lastError: endpoint.lastError,
+    lastCheckedAt: endpoint.lastCheckedAt ? new Date(endpoint.lastCheckedAt).toISOString() : null
+  }));
+}
+
+/**
+ * Get the URL of the endpoint currently serving requests for a network
+ * @param network Network name
+ * @returns The active endpoint URL
+ */
+export function getActiveRpcUrl(network = 'mainnet'): string {
+  return getPool(network).activeUrl;
+}
@@ -0,0 +1,209 @@
+import {
+  Account,
+  CallData,
+  constants,
+  hash,
+  num,
+  uint256,
+  type Call,
+  type EstimateFee,
+  type UniversalDetails
+} from 'starknet';
+import { getProvider, getContract, parseStarknetAddress } from './clients.js';
+import { getRegisteredAccount } from './accounts.js';
+import { utils } from './utils.js';
+import { compileCalldata, parseTokenAmount } from './transfer.js';
+import { loadClassArtifacts } from './deployment.js';
+import { quoteFee, type FeeQuote, type FeeToken } from './fees.js';
+import type { NamedArgs } from './calldata.js';
+import { TOKEN_ADDRESSES } from './tokenlist.js';
+
+// Signing key of the estimation account; never used to sign since validation is skipped
+const ESTIMATION_KEY = '0x1';
+
+/**
+ * Kind of transaction to estimate
+ */
+export type EstimateType = 'transfer' | 'invoke' | 'declare' | 'deploy_account';
+
+/**
+ * Fee estimate of a transaction in both fee tokens
+ */
+export interface FeeEstimateReport {
+  type: EstimateType;
+  sender: string;
+  skipValidate: true; // Account validation is not run, so the actual fee can be slightly higher
+  estimates: Record<FeeToken, FeeQuote | null>;
+  errors?: Partial<Record<FeeToken, string>>; // Why a token could not be estimated
+}
+
+/**
+ * Resolve the sender of a transaction from an account alias or a plain address
+ */
+async function resolveSender(params: { account?: string; senderAddress?: string }, network: string): Promise<string> {
+  if (params.account) {
+    return getRegisteredAccount(params.account, network).address;
+  }
+  if (params.senderAddress) {
+    return parseStarknetAddress(await utils.resolveNameOrAddress(params.senderAddress, network));
+  }
+  throw new Error('A sender is required: pass senderAddress or a configured account alias');
+}
+
+/**
+ * Build the call of a token transfer
+ */
+async function buildTransferCall(token: string, to: string, amount: string, network: string): Promise<Call> {
+  const upper = token.toUpperCase();
+  const tokenAddress = upper === 'ETH' || upper === 'STRK'
+    ? TOKEN_ADDRESSES[upper]
+    : parseStarknetAddress(await utils.resolveNameOrAddress(token, network));
+
+  let decimals = 18;
+  if (upper !== 'ETH' && upper !== 'STRK') {
+    const contract = await getContract(tokenAddress, getProvider(network), network);
+    decimals = Number((await contract.call('decimals', [])).toString());
+  }
+
+  return {
+    contractAddress: tokenAddress,
+    entrypoint: 'transfer',
+    calldata: CallData.compile({
+      recipient: parseStarknetAddress(await utils.resolveNameOrAddress(to, network)),
+      amount: uint256.bnToUint256(parseTokenAmount(amount, decimals))
+    })
+  };
+}
+
+/**
+ * Estimate the fee of a transaction in ETH and STRK without a signing key
+ * The transaction is estimated from the sender address alone with validation skipped, so
+ * agents can quote costs for any account. Transfers take human-readable amounts; invokes take
+ * calls with raw calldata or ABI-encoded args; declares take Scarb artifacts; account
+ * deployments take a created account alias or a class hash, constructor calldata and salt.
+ * @param params Transaction type, sender and the fields of that type
+ * @param network Network name (mainnet, sepolia)
+ * @returns The quote in each fee token, with the reason a token could not be estimated
+ */
+export async function estimateTransactionFee(
+  params: {
+    type: EstimateType;
+    senderAddress?: string; // Address or Starknet ID
+    account?: string; // Alias of a configured account, instead of senderAddress
+    token?: string; // transfer: ETH, STRK or a token address
+    to?: string; // transfer
+    amount?: string; // transfer, in human-readable units
+    calls?: Array<{ contractAddress: string; entrypoint: string; calldata?: any[]; args?: NamedArgs }>; // invoke
+    contractClassPath?: string; // declare
+    compiledClassPath?: string; // declare
+    classHash?: string; // deploy_account
+    constructorCalldata?: string[]; // deploy_account
+    salt?: string; // deploy_account
+    feeMargin?: number;
+  },
+  network = 'mainnet'
+): Promise<FeeEstimateReport> {
+  const provider = getProvider(network);
+  let sender: string;
+  let estimate: (details: UniversalDetails) => Promise<EstimateFee>;
+  let ethVersion: 1 | 2 = 1;
+
+  switch (params.type) {
+    case 'transfer': {
+      if (!params.to || params.amount === undefined) {
+        throw new Error('A transfer estimate needs to and amount');
+      }
+      sender = await resolveSender(params, network);
+      const call = await buildTransferCall(params.token ?? 'ETH', params.to, params.amount, network);
+      const account = new Account(provider, sender, ESTIMATION_KEY);
+      estimate = details => account.estimateInvokeFee(call, { ...details, skipValidate: true });
+      break;
+    }
+
+    case 'invoke': {
+      if (!params.calls?.length) {
+        throw new Error('An invoke estimate needs at least one call');
+      }
+      sender = await resolveSender(params, network);
+      const calls: Call[] = [];
+      for (const [index, call] of params.calls.entries()) {
+        try {
+          const contractAddress = parseStarknetAddress(await utils.resolveNameOrAddress(call.contractAddress, network));
+          calls.push({
+            contractAddress,
+            entrypoint: call.entrypoint,
+            calldata: await compileCalldata(contractAddress, call.entrypoint, call, network)
+          });
+        } catch (error) {
+          throw new Error(`Call ${index}: ${(error as Error).message}`);
+        }
+      }
+      const account = new Account(provider, sender, ESTIMATION_KEY);
+      estimate = details => account.estimateInvokeFee(calls, { ...details, skipValidate: true });
+      break;
+    }
+
+    case 'declare': {
+      if (!params.contractClassPath || !params.compiledClassPath) {
+        throw new Error('A declare estimate needs contractClassPath and compiledClassPath');
+      }
+      sender = await resolveSender(params, network);
+      const { payload } = loadClassArtifacts(params.contractClassPath, params.compiledClassPath);
+      const account = new Account(provider, sender, ESTIMATION_KEY);
+      estimate = details => account.estimateDeclareFee(payload, { ...details, skipValidate: true });
+      // Sierra classes are declared with V2 transactions when paying in ETH
+      ethVersion = 2;
+      break;
+    }
+
+    case 'deploy_account': {
+      // A created account carries its deployment data; otherwise it is given explicitly
+      const deployment = params.account ? getRegisteredAccount(params.account, network).deployment : undefined;
+      if (params.account && !deployment) {
+        throw new Error(`Account "${params.account}" was not created by this server; pass classHash, constructorCalldata and salt instead`);
+      }
+      const classHash = deployment?.classHash ?? params.classHash;
+      if (!classHash) {
+        throw new Error('An account deployment estimate needs a created account alias or a classHash');
+      }
+      const payload = {
+        classHash: num.toHex(classHash),
+        constructorCalldata: deployment?.constructorCalldata ?? CallData.compile(params.constructorCalldata ?? []),
+        addressSalt: deployment?.salt ?? params.salt ?? '0x0'
+      };
+      sender = num.toHex(hash.calculateContractAddressFromHash(payload.addressSalt, payload.classHash, payload.constructorCalldata, 0));
+      const account = new Account(provider, sender, ESTIMATION_KEY);
+      estimate = details => account.estimateAccountDeployFee({ ...payload, contractAddress: sender }, { ...details, skipValidate: true });
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown transaction type: ${params.type}`);
+  }
+
+  // Estimate in both units; each may fail on its own (e.g. STRK-only accounts)
+  const legacyVersion = ethVersion === 2 ? constants.TRANSACTION_VERSION.V2 : constants.TRANSACTION_VERSION.V1;
+  const [ethEstimate, strkEstimate] = await Promise.allSettled([
+    estimate({ version: legacyVersion }),
+    estimate({ version: constants.TRANSACTION_VERSION.V3 })
+  ]);
+
+  if (ethEstimate.status === 'rejected' && strkEstimate.status === 'rejected') {
+    throw new Error(`Fee estimation failed: ${(strkEstimate.reason as Error).message}`);
+  }
+
+  const errors: Partial<Record<FeeToken, string>> = {};
+  if (ethEstimate.status === 'rejected') errors.ETH = (ethEstimate.reason as Error).message;
+  if (strkEstimate.status === 'rejected') errors.STRK = (strkEstimate.reason as Error).message;
+
+  return {
+    type: params.type,
+    sender,
+    skipValidate: true,
+    estimates: {
+      ETH: ethEstimate.status === 'fulfilled' ? quoteFee(ethEstimate.value, ethVersion, params.feeMargin) : null,
+      STRK: strkEstimate.status === 'fulfilled' ? quoteFee(strkEstimate.value, 3, params.feeMargin) : null
+    },
+    ...(Object.keys(errors).length > 0 && { errors })
+  };
+}
@@ -0,0 +1,218 @@
+import { hash, num, type Abi } from 'starknet';
+import { getProvider, parseStarknetAddress } from './clients.js';
+import { getAbiForAddress } from './abis.js';
+import { decodeEvents, type DecodedEvent } from './calldata.js';
+
+/**
+ * An emitted event, with its decoding when the emitting contract's ABI describes it
+ */
+export interface ContractEvent {
+  fromAddress: string;
+  blockNumber: number | null;
+  blockHash: string | null;
+  transactionHash: string;
+  keys: string[];
+  data: string[];
+  event: DecodedEvent | null;
+}
+
+/**
+ * A page of events and the token to fetch the next one
+ */
+export interface EventPage {
+  events: ContractEvent[];
+  fromBlock: number;
+  toBlock: number;
+  nextBlock: number | null; // First block the next page starts scanning from
+  continuationToken: string | null; // Null once the whole range has been scanned
+}
+
+/**
+ * Position of a paginated query, carried between pages in the continuation token
+ */
+interface EventCursor {
+  from: number; // First block of the current window
+  to: number; // Last block of the whole range
+  rpc: string | null; // Node continuation token within the current window
+  query: string; // Fingerprint of the filter the token was issued for
+}
+
+// Blocks queried when no start block is given
+const DEFAULT_BLOCK_RANGE = 1000;
+
+// Blocks covered by a single starknet_getEvents request, so large ranges are split
+const MAX_BLOCK_SPAN = 5000;
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// Node requests made for one page before handing a continuation token back
+const MAX_REQUESTS_PER_PAGE = 10;
+
+/**
+ * Get the selector of an event from its name, as emitted in the first key
+ * @param name Event name; for a full type path only the last segment is used
+ * @returns The selector as hex
+ */
+export function getEventSelector(name: string): string {
+  return num.toHex(hash.getSelectorFromName(name.split('::').pop()!));
+}
+
+function encodeCursor(cursor: EventCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(token: string, query: string): EventCursor {
+  let cursor: EventCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid continuation token');
+  }
+  if (typeof cursor.from !== 'number' || typeof cursor.to !== 'number') {
+    throw new Error('Invalid continuation token');
+  }
+  if (cursor.query !== query) {
+    throw new Error('The continuation token was issued for a different contract address, event names or keys');
+  }
+  return cursor;
+}
+
+/**
+ * Build the key filter: event selectors in the first position, then the given keys
+ */
+function buildKeyFilter(eventNames: string[] = [], keys: string[][] = []): string[][] {
+  const filter = keys.map(position => position.map(key => num.toHex(key)));
+
+  if (eventNames.length > 0) {
+    if (filter[0]?.length) {
+      throw new Error('Pass event names or a first-position key filter, not both');
+    }
+    filter[0] = eventNames.map(getEventSelector);
+  }
+
+  return filter;
+}
+
+/**
+ * Decode events with the ABI of the contract that emitted each of them
+ * @param rawEvents Events as returned by the node
+ * @param network Network name
+ * @returns The decodings, null where the ABI is unavailable or does not describe the event
+ */
+export async function decodeEmittedEvents(
+  rawEvents: Array<{ from_address: string; keys: string[]; data: string[] }>,
+  network: string
+): Promise<Array<DecodedEvent | null>> {
+  const provider = getProvider(network);
+  const decoded: Array<DecodedEvent | null> = rawEvents.map(() => null);
+
+  // Group events by emitter so each ABI is fetched and indexed once
+  const byAddress = new Map<string, number[]>();
+  rawEvents.forEach((event, index) => {
+    const address = num.toHex(event.from_address);
+    byAddress.set(address, [...(byAddress.get(address) ?? []), index]);
+  });
+
+  for (const [address, indexes] of byAddress) {
+    let abi: Abi;
+    try {
+      abi = (await getAbiForAddress(address, provider)).abi;
+    } catch {
+      continue;
+    }
+    decodeEvents(abi, indexes.map(index => rawEvents[index])).forEach((event, position) => {
+      decoded[indexes[position]] = event;
+    });
+  }
+
+  return decoded;
+}
+
+/**
+ * Query emitted events with filters, decoding them with the ABI of the emitting contract
+ * Large block ranges are split into windows of at most MAX_BLOCK_SPAN blocks and results are
+ * paginated: pass the returned continuation token with the same filter to get the next page.
+ * Events are decoded with the contract's current class, so events emitted before an upgrade
+ * may not decode.
+ * @param params Contract address, event names, key filters, block range, page size and
+ * continuation token
+ * @param network Network name (mainnet, sepolia)
+ * @returns A page of events
+ */
+export async function getEvents(
+  params: {
+    contractAddress?: string; // Already resolved; all contracts when omitted
+    eventNames?: string[]; // Converted to selectors matched against the first key
+    keys?: string[][]; // Per position, any of the given values; an empty list matches anything
+    fromBlock?: number; // Defaults to DEFAULT_BLOCK_RANGE blocks before toBlock
+    toBlock?: number; // Defaults to the latest block
+    pageSize?: number;
+    continuationToken?: string;
+    decode?: boolean;
+  },
+  network = 'mainnet'
+): Promise<EventPage> {
+  const provider = getProvider(network);
+  const address = params.contractAddress ? parseStarknetAddress(params.contractAddress) : undefined;
+  const keys = buildKeyFilter(params.eventNames, params.keys);
+  const pageSize = Math.min(Math.max(params.pageSize ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const query = num.toHex(hash.starknetKeccak(JSON.stringify({ address: address ?? null, keys })));
+
+  let cursor: EventCursor;
+  if (params.continuationToken) {
+    cursor = decodeCursor(params.continuationToken, query);
+  } else {
+    const toBlock = params.toBlock ?? await provider.getBlockNumber();
+    const fromBlock = params.fromBlock ?? Math.max(toBlock - DEFAULT_BLOCK_RANGE + 1, 0);
+    if (fromBlock > toBlock) {
+      throw new Error(`fromBlock (${fromBlock}) is after toBlock (${toBlock})`);
+    }
+    cursor = { from: fromBlock, to: toBlock, rpc: null, query };
+  }
+
+  const firstBlock = cursor.from;
+  const rawEvents: Array<{ from_address: string; keys: string[]; data: string[]; block_number?: number; block_hash?: string; transaction_hash: string }> = [];
+  let next: EventCursor | null = cursor;
+
+  for (let requests = 0; next && rawEvents.length < pageSize && requests < MAX_REQUESTS_PER_PAGE; requests++) {
+    const windowTo: number = Math.min(next.from + MAX_BLOCK_SPAN - 1, next.to);
+    const chunk = await provider.getEvents({
+      address,
+      keys,
+      from_block: { block_number: next.from },
+      to_block: { block_number: windowTo },
+      chunk_size: pageSize - rawEvents.length,
+      continuation_token: next.rpc ?? undefined
+    });
+    rawEvents.push(...(chunk.events as any[]));
+
+    if (chunk.continuation_token) {
+      next = { ...next, rpc: chunk.continuation_token };
+    } else if (windowTo < next.to) {
+      next = { ...next, from: windowTo + 1, rpc: null };
+    } else {
+      next = null;
+    }
+  }
+
+  const decoded = params.decode === false
+    ? rawEvents.map(() => null)
+    : await decodeEmittedEvents(rawEvents, network);
+
+  return {
+    events: rawEvents.map((event, index) => ({
+      fromAddress: num.toHex(event.from_address),
+      blockNumber: event.block_number ?? null,
+      blockHash: event.block_hash ?? null,
+      transactionHash: event.transaction_hash,
+      keys: event.keys,
+      data: event.data,
+      event: decoded[index]
+    })),
+    fromBlock: firstBlock,
+    toBlock: cursor.to,
+    nextBlock: next ? next.from : null,
+    continuationToken: next ? encodeCursor(next) : null
+  };
+}
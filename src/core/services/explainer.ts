@@ -0,0 +1,319 @@
+import { hash, num, shortString, type Abi } from 'starknet';
+import { getContract, getProvider, parseStarknetAddress } from './clients.js';
+import { getAbiForAddress, getAbiForClassHash } from './abis.js';
+import { decodeCalldata, getAbiEntryBySelector } from './calldata.js';
+import { decodeEmittedEvents } from './events.js';
+import { getTransaction, getTransactionReceipt } from './transactions.js';
+import { getTokenInfo } from './tokens.js';
+import { decodeTransferEvent, formatAmount } from './tokenlist.js';
+
+/**
+ * A contract call made by a transaction, decoded with the target's ABI when possible
+ */
+export interface ExplainedCall {
+  contractAddress: string;
+  selector: string;
+  entrypoint: string | null; // Null when the ABI has no entrypoint with this selector
+  args: Record<string, unknown> | null;
+  calldata: string[];
+  decodeError?: string;
+}
+
+/**
+ * An event emitted by a transaction; raw keys and data are kept only when it could not be decoded
+ */
+export interface ExplainedEvent {
+  fromAddress: string;
+  name: string | null;
+  type: string | null;
+  fields: Record<string, unknown> | null;
+  keys?: string[];
+  data?: string[];
+}
+
+/**
+ * An ERC20 or ERC721 transfer found in the events of a transaction
+ */
+export interface TokenTransferSummary {
+  standard: 'ERC20' | 'ERC721';
+  token: string;
+  symbol: string | null;
+  from: string;
+  to: string;
+  amount?: string; // ERC20, in the token's smallest unit
+  formatted?: string; // ERC20, with the token's decimals and symbol
+  tokenId?: string; // ERC721
+}
+
+/**
+ * Readable account of what a transaction did
+ */
+export interface TransactionExplanation {
+  hash: string;
+  type: string;
+  version: string;
+  finality: string;
+  execution: string;
+  revertReason: string | null;
+  blockNumber: number | null;
+  sender: string | null;
+  nonce: string | null;
+  classHash: string | null; // Declared class, or class of the deployed account
+  calls: ExplainedCall[];
+  events: ExplainedEvent[];
+  transfers: TokenTransferSummary[];
+  fee: {
+    amount: string;
+    unit: string; // WEI (paid in ETH) or FRI (paid in STRK)
+    formatted: string;
+  } | null;
+}
+
+/**
+ * Split the calldata of an account's `__execute__` into its calls
+ * Cairo 1 accounts encode [n, (to, selector, len, ...data)*]; Cairo 0 accounts encode a call
+ * array of (to, selector, offset, len) followed by the concatenated calldata.
+ * @returns The calls, or null if the calldata matches neither layout
+ */
+function parseExecuteCalldata(calldata: string[]): Array<{ to: string; selector: string; calldata: string[] }> | null {
+  if (calldata.length === 0) return null;
+  const count = Number(num.toBigInt(calldata[0]));
+
+  // Cairo 1 layout
+  const calls: Array<{ to: string; selector: string; calldata: string[] }> = [];
+  let position = 1;
+  for (let index = 0; index < count && position + 3 <= calldata.length; index++) {
+    const length = Number(num.toBigInt(calldata[position + 2]));
+    calls.push({
+      to: calldata[position],
+      selector: calldata[position + 1],
+      calldata: calldata.slice(position + 3, position + 3 + length)
+    });
+    position += 3 + length;
+  }
+  if (calls.length === count && position === calldata.length) {
+    return calls;
+  }
+
+  // Cairo 0 layout
+  const dataStart = 2 + 4 * count;
+  if (dataStart > calldata.length) return null;
+  const data = calldata.slice(dataStart);
+  if (Number(num.toBigInt(calldata[dataStart - 1])) !== data.length) return null;
+
+  const legacyCalls = [];
+  for (let index = 0; index < count; index++) {
+    const [to, selector, offset, length] = calldata.slice(1 + 4 * index, 5 + 4 * index);
+    const start = Number(num.toBigInt(offset));
+    const end = start + Number(num.toBigInt(length));
+    if (end > data.length) return null;
+    legacyCalls.push({ to, selector, calldata: data.slice(start, end) });
+  }
+  return legacyCalls;
+}
+
+/**
+ * Decode the calls of a transaction with the ABIs of their targets
+ */
+async function explainCalls(
+  calls: Array<{ to: string; selector: string; calldata: string[] }>,
+  network: string
+): Promise<ExplainedCall[]> {
+  const provider = getProvider(network);
+  const abis = new Map<string, Abi | null>();
+
+  const explained: ExplainedCall[] = [];
+  for (const call of calls) {
+    const contractAddress = num.toHex(call.to);
+    if (!abis.has(contractAddress)) {
+      try {
+        abis.set(contractAddress, (await getAbiForAddress(contractAddress, provider)).abi);
+      } catch {
+        abis.set(contractAddress, null);
+      }
+    }
+
+    const abi = abis.get(contractAddress);
+    const entry = abi ? getAbiEntryBySelector(abi, call.selector) : undefined;
+    const result: ExplainedCall = {
+      contractAddress,
+      selector: num.toHex(call.selector),
+      entrypoint: entry?.name ?? null,
+      args: null,
+      calldata: call.calldata
+    };
+
+    if (abi && entry) {
+      try {
+        result.args = decodeCalldata(abi, entry.type === 'constructor' ? 'constructor' : entry.name, call.calldata);
+      } catch (error) {
+        result.decodeError = (error as Error).message;
+      }
+    }
+    explained.push(result);
+  }
+
+  return explained;
+}
+
+/**
+ * Get the symbol and decimals of a token, falling back to the symbol alone for NFT collections
+ */
+async function getTokenMetadata(token: string, network: string): Promise<{ symbol: string | null; decimals: number | null }> {
+  try {
+    const { symbol, decimals } = await getTokenInfo(token, network);
+    return { symbol, decimals };
+  } catch {
+    // ERC721 collections have no decimals
+  }
+
+  try {
+    const contract = await getContract(token, getProvider(network), network);
+    const symbol: any = await contract.call('symbol', []);
+    return {
+      symbol: typeof symbol === 'string' ? symbol : shortString.decodeShortString(num.toHex(symbol)),
+      decimals: null
+    };
+  } catch {
+    return { symbol: null, decimals: null };
+  }
+}
+
+/**
+ * Summarize the ERC20 and ERC721 Transfer events of a transaction
+ * Cairo 0 ERC20 and ERC721 transfers share a layout and are told apart by whether the token
+ * has decimals.
+ */
+async function summarizeTransfers(
+  rawEvents: Array<{ from_address: string; keys: string[]; data: string[] }>,
+  network: string
+): Promise<TokenTransferSummary[]> {
+  const metadata = new Map<string, { symbol: string | null; decimals: number | null }>();
+  const transfers: TokenTransferSummary[] = [];
+
+  for (const event of rawEvents) {
+    const layout = decodeTransferEvent(event);
+    if (!layout) continue;
+
+    const token = num.toHex(event.from_address);
+    if (!metadata.has(token)) {
+      metadata.set(token, await getTokenMetadata(token, network));
+    }
+    const { symbol, decimals } = metadata.get(token)!;
+    const standard = layout.standard ?? (decimals === null ? 'ERC721' : 'ERC20');
+
+    const transfer: TokenTransferSummary = {
+      standard,
+      token,
+      symbol,
+      from: num.toHex(layout.from),
+      to: num.toHex(layout.to)
+    };
+    if (standard === 'ERC20') {
+      transfer.amount = layout.value.toString();
+      if (decimals !== null) {
+        transfer.formatted = `${formatAmount(layout.value, decimals, { trimZeros: true })}${symbol ? ` ${symbol}` : ''}`;
+      }
+    } else {
+      transfer.tokenId = layout.value.toString();
+    }
+    transfers.push(transfer);
+  }
+
+  return transfers;
+}
+
+/**
+ * Explain a transaction: its calls decoded into named arguments, its events decoded with the
+ * emitting contracts' ABIs, the token transfers it made and the fee it paid
+ * Calls and events are decoded with the contracts' current classes, so transactions made
+ * before an upgrade may only partly decode.
+ * @param txHash Transaction hash
+ * @param network Network name (mainnet, sepolia)
+ * @returns The explanation
+ */
+export async function explainTransaction(txHash: string, network = 'mainnet'): Promise<TransactionExplanation> {
+  const formattedTxHash = parseStarknetAddress(txHash);
+  const [transaction, receipt]: any[] = await Promise.all([
+    getTransaction(formattedTxHash, network),
+    getTransactionReceipt(formattedTxHash, network)
+  ]);
+
+  // Calls made by the transaction, in the shape of an account multicall
+  let calls: Array<{ to: string; selector: string; calldata: string[] }> = [];
+  const classHash: string | null = transaction.class_hash ? num.toHex(transaction.class_hash) : null;
+
+  if (transaction.type === 'INVOKE') {
+    if (transaction.sender_address) {
+      calls = parseExecuteCalldata(transaction.calldata ?? []) ?? [{
+        to: transaction.sender_address,
+        selector: hash.getSelectorFromName('__execute__'),
+        calldata: transaction.calldata ?? []
+      }];
+    } else {
+      // INVOKE v0 calls the contract directly
+      calls = [{ to: transaction.contract_address, selector: transaction.entry_point_selector, calldata: transaction.calldata ?? [] }];
+    }
+  } else if (transaction.type === 'L1_HANDLER') {
+    calls = [{ to: transaction.contract_address, selector: transaction.entry_point_selector, calldata: transaction.calldata ?? [] }];
+  }
+
+  const explainedCalls = await explainCalls(calls, network);
+
+  // The constructor call of a deployed account is decoded with its class ABI
+  if (transaction.type === 'DEPLOY_ACCOUNT' && classHash) {
+    const constructorCall: ExplainedCall = {
+      contractAddress: num.toHex(receipt.contract_address ?? transaction.contract_address ?? 0),
+      selector: num.toHex(hash.getSelectorFromName('constructor')),
+      entrypoint: 'constructor',
+      args: null,
+      calldata: transaction.constructor_calldata ?? []
+    };
+    try {
+      const abi = await getAbiForClassHash(classHash, getProvider(network));
+      constructorCall.args = decodeCalldata(abi, 'constructor', constructorCall.calldata);
+    } catch (error) {
+      constructorCall.decodeError = (error as Error).message;
+    }
+    explainedCalls.push(constructorCall);
+  }
+
+  const rawEvents: Array<{ from_address: string; keys: string[]; data: string[] }> = receipt.events ?? [];
+  const decodedEvents = await decodeEmittedEvents(rawEvents, network);
+  const events: ExplainedEvent[] = rawEvents.map((event, index) => {
+    const decoded = decodedEvents[index];
+    return decoded
+      ? { fromAddress: num.toHex(event.from_address), name: decoded.name, type: decoded.type, fields: decoded.fields }
+      : { fromAddress: num.toHex(event.from_address), name: null, type: null, fields: null, keys: event.keys, data: event.data };
+  });
+
+  // RPC 0.7 reports the fee with its unit, older versions as a plain amount in wei
+  const actualFee = receipt.actual_fee;
+  let fee: TransactionExplanation['fee'] = null;
+  if (actualFee !== undefined) {
+    const amount = num.toBigInt(typeof actualFee === 'object' ? actualFee.amount : actualFee);
+    const unit = typeof actualFee === 'object' ? actualFee.unit : 'WEI';
+    fee = {
+      amount: amount.toString(),
+      unit,
+      formatted: `${formatAmount(amount, 18, { trimZeros: true })} ${unit === 'FRI' ? 'STRK' : 'ETH'}`
+    };
+  }
+
+  return {
+    hash: formattedTxHash,
+    type: transaction.type,
+    version: String(transaction.version),
+    finality: receipt.finality_status ?? 'UNKNOWN',
+    execution: receipt.execution_status ?? 'UNKNOWN',
+    revertReason: receipt.revert_reason ?? null,
+    blockNumber: receipt.block_number ?? null,
+    sender: transaction.sender_address ? num.toHex(transaction.sender_address) : null,
+    nonce: transaction.nonce !== undefined ? num.toBigInt(transaction.nonce).toString() : null,
+    classHash,
+    calls: explainedCalls,
+    events,
+    transfers: await summarizeTransfers(rawEvents, network),
+    fee
+  };
+}
@@ -0,0 +1,258 @@
+import { constants, num, stark, type EstimateFee, type UniversalDetails } from 'starknet';
+import { getConfig } from '../config.js';
+import { formatAmount } from './tokenlist.js';
+
+// Default multiplier applied to fee estimates (starknet.js adds the same 50% margin)
+const DEFAULT_FEE_MARGIN = 1.5;
+
+/**
+ * Token a transaction fee is paid in: ETH for V1 transactions, STRK for V3 transactions
+ */
+export type FeeToken = 'ETH' | 'STRK';
+
+/**
+ * Bound on the amount and unit price of one resource of a V3 transaction
+ */
+export interface ResourceBoundInput {
+  maxAmount: string | bigint;
+  maxPricePerUnit: string | bigint;
+}
+
+/**
+ * Fee options shared by all write operations
+ */
+export interface FeeOptions {
+  feeToken?: FeeToken;
+  maxFee?: string | bigint; // V1 (ETH) only
+  resourceBounds?: { // V3 (STRK) only, overrides the estimated bounds
+    l1Gas?: ResourceBoundInput;
+    l2Gas?: ResourceBoundInput;
+  };
+  tip?: string | bigint; // V3 (STRK) only
+  feeMargin?: number; // Multiplier applied to the estimate (V3: to both gas amount and price), e.g. 1.5
+}
+
+/**
+ * Fee estimate in a single unit
+ */
+export interface UnitFeeEstimate {
+  overallFee: string;
+  formatted: string;
+}
+
+/**
+ * Fee settings used for a transaction, with the estimate in both fee tokens
+ */
+export interface FeeSummary {
+  feeToken: FeeToken;
+  version: 1 | 2 | 3;
+  unit: 'WEI' | 'FRI';
+  feeMargin: number;
+  estimatedFee: string;
+  maxFee: string; // Most the transaction can be charged, in the fee token's smallest unit
+  resourceBounds?: {
+    l1_gas: { max_amount: string; max_price_per_unit: string };
+    l2_gas: { max_amount: string; max_price_per_unit: string };
+  };
+  tip?: string;
+  estimates: Record<FeeToken, UnitFeeEstimate | null>;
+}
+
+/**
+ * Detailed fee estimate in one fee token, for quoting a transaction
+ */
+export interface FeeQuote {
+  version: 1 | 2 | 3;
+  unit: 'WEI' | 'FRI';
+  overallFee: string;
+  formatted: string;
+  maxFee: string; // Estimate with the fee margin applied, as a write tool would bound it
+  maxFeeFormatted: string;
+  gasConsumed: string; // L1 gas
+  gasPrice: string;
+  gasPriceFormatted: string;
+  dataGasConsumed: string; // L1 data (blob) gas
+  dataGasPrice: string;
+  dataGasPriceFormatted: string;
+}
+
+/**
+ * Format a fee in 18-decimal smallest units (wei or fri)
+ */
+function formatFee(amount: bigint, token: FeeToken): string {
+  return `${formatAmount(amount, 18, { trimZeros: true })} ${token}`;
+}
+
+/**
+ * Get the fee token used when a write tool does not specify one
+ * @returns The `fees.token` config setting, or ETH
+ */
+export function getDefaultFeeToken(): FeeToken {
+  return getConfig().fees?.token ?? 'ETH';
+}
+
+/**
+ * Get the transaction version that pays its fee in a token
+ * @param feeToken The fee token
+ * @returns 1 for ETH, 3 for STRK
+ */
+export function getTransactionVersion(feeToken: FeeToken): 1 | 3 {
+  return feeToken === 'STRK' ? 3 : 1;
+}
+
+/**
+ * Get the fee margin applied to estimates
+ * @param feeMargin Margin given for a transaction, overriding the config setting
+ * @returns The margin, at least 1
+ */
+function resolveFeeMargin(feeMargin?: number): number {
+  const margin = feeMargin ?? getConfig().fees?.margin ?? DEFAULT_FEE_MARGIN;
+  if (margin < 1) {
+    throw new Error(`Fee margin must be at least 1 (got ${margin})`);
+  }
+  return margin;
+}
+
+/**
+ * Break a fee estimate down into gas amounts and prices, formatted in the fee token
+ * @param estimate Fee estimate returned by starknet.js
+ * @param version Transaction version the estimate is for
+ * @param feeMargin Multiplier applied to get the max fee (defaults to the config setting)
+ * @returns The quote
+ */
+export function quoteFee(estimate: EstimateFee, version: 1 | 2 | 3, feeMargin?: number): FeeQuote {
+  const token: FeeToken = version === 3 ? 'STRK' : 'ETH';
+  const overheadPercent = Math.round((resolveFeeMargin(feeMargin) - 1) * 100);
+
+  let maxFee: bigint;
+  if (version === 3) {
+    const bounds = stark.estimateFeeToBounds(estimate as any, overheadPercent, overheadPercent);
+    maxFee = num.toBigInt(bounds.l1_gas.max_amount) * num.toBigInt(bounds.l1_gas.max_price_per_unit)
+      + num.toBigInt(bounds.l2_gas.max_amount) * num.toBigInt(bounds.l2_gas.max_price_per_unit);
+  } else {
+    maxFee = stark.estimatedFeeToMaxFee(estimate.overall_fee, overheadPercent);
+  }
+
+  const overallFee = num.toBigInt(estimate.overall_fee);
+  const gasPrice = num.toBigInt(estimate.gas_price ?? 0);
+  const dataGasPrice = num.toBigInt(estimate.data_gas_price ?? 0);
+
+  return {
+    version,
+    unit: token === 'STRK' ? 'FRI' : 'WEI',
+    overallFee: overallFee.toString(),
+    formatted: formatFee(overallFee, token),
+    maxFee: maxFee.toString(),
+    maxFeeFormatted: formatFee(maxFee, token),
+    gasConsumed: num.toBigInt(estimate.gas_consumed ?? 0).toString(),
+    gasPrice: gasPrice.toString(),
+    gasPriceFormatted: formatFee(gasPrice, token),
+    dataGasConsumed: num.toBigInt(estimate.data_gas_consumed ?? 0).toString(),
+    dataGasPrice: dataGasPrice.toString(),
+    dataGasPriceFormatted: formatFee(dataGasPrice, token)
+  };
+}
+
+/**
+ * Estimates the fee of a transaction for the given transaction details
+ */
+export type FeeEstimator = (details: UniversalDetails) => Promise<EstimateFee>;
+
+/**
+ * Estimate the fee of a transaction, resolve the fee settings of the chosen transaction
+ * version and report the estimate in both ETH (V1) and STRK (V3)
+ * @param estimateFee Estimates the transaction for a version, e.g. via `account.estimateInvokeFee`
+ * @param options Fee options
+ * @param ethVersion Version of the transaction when paying in ETH: 1, or 2 to declare a Sierra class
+ * @returns Transaction details to pass to `execute` (or `deployAccount`, `declare`) and a summary of the fee
+ */
+export async function resolveFeeDetails(
+  estimateFee: FeeEstimator,
+  options: FeeOptions = {},
+  ethVersion: 1 | 2 = 1
+): Promise<{ details: UniversalDetails; fee: FeeSummary }> {
+  const feeToken = options.feeToken ?? getDefaultFeeToken();
+  const version = feeToken === 'STRK' ? 3 : ethVersion;
+  const legacyVersion = ethVersion === 2 ? constants.TRANSACTION_VERSION.V2 : constants.TRANSACTION_VERSION.V1;
+  const feeMargin = resolveFeeMargin(options.feeMargin);
+
+  if (version !== 3 && (options.resourceBounds || options.tip !== undefined)) {
+    throw new Error('resourceBounds and tip only apply to STRK (V3) transactions');
+  }
+  if (version === 3 && options.maxFee !== undefined) {
+    throw new Error('maxFee only applies to ETH (V1) transactions; use resourceBounds for STRK');
+  }
+
+  // Estimate in both units; only the chosen one has to succeed
+  const [ethEstimate, strkEstimate] = await Promise.allSettled([
+    estimateFee({ version: legacyVersion }),
+    estimateFee({ version: constants.TRANSACTION_VERSION.V3 })
+  ]);
+
+  const selected = feeToken === 'STRK' ? strkEstimate : ethEstimate;
+  if (selected.status === 'rejected') {
+    throw selected.reason;
+  }
+  const estimate: EstimateFee = selected.value;
+
+  const toUnitEstimate = (result: PromiseSettledResult<EstimateFee>, token: FeeToken): UnitFeeEstimate | null =>
+    result.status === 'fulfilled'
+      ? { overallFee: num.toBigInt(result.value.overall_fee).toString(), formatted: formatFee(num.toBigInt(result.value.overall_fee), token) }
+      : null;
+
+  const estimates = {
+    ETH: toUnitEstimate(ethEstimate, 'ETH'),
+    STRK: toUnitEstimate(strkEstimate, 'STRK')
+  };
+
+  // starknet.js expresses margins as an integer percentage on top of the estimate
+  const overheadPercent = Math.round((feeMargin - 1) * 100);
+
+  if (version !== 3) {
+    const maxFee = options.maxFee !== undefined
+      ? BigInt(options.maxFee)
+      : stark.estimatedFeeToMaxFee(estimate.overall_fee, overheadPercent);
+
+    return {
+      details: { version: legacyVersion, maxFee },
+      fee: {
+        feeToken,
+        version,
+        unit: 'WEI',
+        feeMargin,
+        estimatedFee: num.toBigInt(estimate.overall_fee).toString(),
+        maxFee: maxFee.toString(),
+        estimates
+      }
+    };
+  }
+
+  const estimatedBounds = stark.estimateFeeToBounds(estimate as any, overheadPercent, overheadPercent);
+  const toBound = (bound: ResourceBoundInput) => ({
+    max_amount: num.toHex(bound.maxAmount),
+    max_price_per_unit: num.toHex(bound.maxPricePerUnit)
+  });
+  const resourceBounds = {
+    l1_gas: options.resourceBounds?.l1Gas ? toBound(options.resourceBounds.l1Gas) : estimatedBounds.l1_gas,
+    l2_gas: options.resourceBounds?.l2Gas ? toBound(options.resourceBounds.l2Gas) : estimatedBounds.l2_gas
+  };
+  const tip = options.tip !== undefined ? BigInt(options.tip) : BigInt(0);
+
+  const maxFee = num.toBigInt(resourceBounds.l1_gas.max_amount) * num.toBigInt(resourceBounds.l1_gas.max_price_per_unit)
+    + num.toBigInt(resourceBounds.l2_gas.max_amount) * num.toBigInt(resourceBounds.l2_gas.max_price_per_unit);
+
+  return {
+    details: { version: constants.TRANSACTION_VERSION.V3, resourceBounds, tip },
+    fee: {
+      feeToken,
+      version,
+      unit: 'FRI',
+      feeMargin,
+      estimatedFee: num.toBigInt(estimate.overall_fee).toString(),
+      maxFee: maxFee.toString(),
+      resourceBounds,
+      tip: tip.toString(),
+      estimates
+    }
+  };
+}
@@ -0,0 +1,436 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { num } from 'starknet';
+import { getConfig, resolveConfigPath, type SpendingLimitFileConfig } from '../config.js';
+import { formatAmount } from './tokenlist.js';
+import { utils } from './utils.js';
+
+// Environment variable overriding where spend tracking is persisted
+export const SPEND_STATE_ENV = 'STARKNET_MCP_SPEND_STATE';
+
+// Default location of the spend tracking file
+const DEFAULT_STATE_FILE = join(homedir(), '.starknet-mcp', 'spending.json');
+
+// Window over which daily limits are enforced
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Guardrail that rejected a transaction
+ */
+export type PolicyRule =
+  | 'recipient_denied'
+  | 'recipient_not_allowed'
+  | 'per_transaction_limit'
+  | 'daily_limit'
+  | 'contract_not_allowed'
+  | 'entrypoint_not_allowed'
+  | 'undecodable_token_call'
+  | 'unlimited_approval'
+  | 'outside_execution_typed_data';
+
+/**
+ * Error raised when a transaction is rejected by the guardrails, before anything is signed
+ */
+export class PolicyViolationError extends Error {
+  constructor(
+    public readonly rule: PolicyRule,
+    message: string,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'PolicyViolationError';
+  }
+
+  /**
+   * Structured form returned to MCP clients
+   */
+  toJSON() {
+    return {
+      error: 'policy_violation',
+      rule: this.rule,
+      message: this.message,
+      details: this.details
+    };
+  }
+}
+
+/**
+ * A spend counted against daily limits
+ */
+interface SpendRecord {
+  at: number;
+  amount: string;
+  txHash: string | null; // Or the nonce of a signed outside execution
+}
+
+/**
+ * Persisted spend tracking: records keyed by network, account and token
+ */
+interface SpendState {
+  version: 1;
+  spends: Record<string, SpendRecord[]>;
+}
+
+/**
+ * A spend counted against the daily limits while its transaction is submitted
+ */
+export interface SpendReservation {
+  confirm(txHash: string): void;
+  release(): void;
+}
+
+/**
+ * A token transfer about to be signed
+ */
+export interface TransferCheck {
+  network: string;
+  accountAlias?: string;
+  accountAddress: string;
+  tokenAddress: string;
+  tokenSymbol?: string;
+  decimals: number;
+  amount: bigint;
+  recipient: string; // Resolved recipient address
+  recipientInput: string; // Address or Starknet ID as given
+  paymasterFee?: boolean; // Fee paid to a paymaster: counted against the limits, not checked against the recipient lists
+  unlimitedApproval?: boolean; // Approval without an amount to count: refused where a limit applies, unless allowed
+}
+
+/**
+ * A contract call about to be signed
+ */
+export interface ContractCallCheck {
+  network: string;
+  contractAddress: string; // Resolved contract address
+  contractInput: string; // Address or Starknet ID as given
+  entrypoint: string;
+}
+
+let spendState: SpendState | null = null;
+
+// Addresses of Starknet IDs listed in the guardrails, keyed by network and name
+const resolvedNames = new Map<string, string>();
+
+/**
+ * Get the path of the spend tracking file
+ */
+function getStateFile(): string {
+  const override = process.env[SPEND_STATE_ENV];
+  if (override) return resolve(override);
+
+  const configured = getConfig().guardrails?.stateFile;
+  return configured ? resolveConfigPath(configured) : DEFAULT_STATE_FILE;
+}
+
+function loadSpendState(): SpendState {
+  if (spendState) return spendState;
+
+  const file = getStateFile();
+  spendState = { version: 1, spends: {} };
+
+  if (existsSync(file)) {
+    try {
+      const parsed = JSON.parse(readFileSync(file, 'utf8'));
+      if (parsed?.version === 1 && parsed.spends) {
+        spendState = parsed as SpendState;
+      }
+    } catch (error) {
+      console.error(`Ignoring unreadable spend state file ${file}:`, error);
+    }
+  }
+
+  return spendState;
+}
+
+/**
+ * Write spend tracking to disk, replacing the file atomically
+ */
+function saveSpendState() {
+  const file = getStateFile();
+
+  try {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(`${file}.tmp`, JSON.stringify(spendState, null, 2));
+    renameSync(`${file}.tmp`, file);
+  } catch (error) {
+    console.error(`Could not persist spend state to ${file}:`, error);
+  }
+}
+
+function normalizeAddress(address: string): string {
+  return num.toHex(address);
+}
+
+function spendKey(network: string, accountAddress: string, tokenAddress: string): string {
+  return `${network.toLowerCase()}:${normalizeAddress(accountAddress)}:${normalizeAddress(tokenAddress)}`;
+}
+
+/**
+ * Get the spends of the last 24 hours for an account and token, dropping older records
+ */
+function getRecentSpends(key: string): SpendRecord[] {
+  const state = loadSpendState();
+  const cutoff = Date.now() - DAY_MS;
+  const recent = (state.spends[key] ?? []).filter(record => record.at > cutoff);
+
+  if (recent.length > 0) {
+    state.spends[key] = recent;
+  } else {
+    delete state.spends[key];
+  }
+
+  return recent;
+}
+
+/**
+ * Convert a human-readable amount from the config file to token units
+ */
+function toTokenUnits(amount: string, decimals: number): bigint {
+  const [integerPart, fractionalPart = ''] = amount.trim().split('.');
+  const fraction = fractionalPart.slice(0, decimals).padEnd(decimals, '0');
+  return BigInt(integerPart || '0') * BigInt(10) ** BigInt(decimals) + BigInt(fraction || '0');
+}
+
+/**
+ * Check whether an address or Starknet ID from the guardrails matches a resolved address
+ * @param entry Address or Starknet ID from the config file
+ * @param address The resolved address
+ * @param input The address or Starknet ID given to the tool
+ * @param network Network name
+ */
+async function matchesEntry(entry: string, address: string, input: string, network: string): Promise<boolean> {
+  if (entry === '*') return true;
+
+  if (utils.isValidAddress(entry)) {
+    return num.toBigInt(entry) === num.toBigInt(address);
+  }
+
+  // Starknet ID: compare the names first to avoid a lookup
+  const withSuffix = (name: string) => name.toLowerCase().endsWith('.stark') ? name.toLowerCase() : `${name.toLowerCase()}.stark`;
+  if (!utils.isValidAddress(input) && withSuffix(input) === withSuffix(entry)) {
+    return true;
+  }
+
+  const cacheKey = `${network.toLowerCase()}:${withSuffix(entry)}`;
+  if (!resolvedNames.has(cacheKey)) {
+    try {
+      resolvedNames.set(cacheKey, await utils.resolveNameOrAddress(entry, network));
+    } catch (error) {
+      console.error(`Could not resolve guardrail entry ${entry}:`, error);
+      return false;
+    }
+  }
+
+  return num.toBigInt(resolvedNames.get(cacheKey)!) === num.toBigInt(address);
+}
+
+async function matchesAny(entries: string[], address: string, input: string, network: string): Promise<boolean> {
+  for (const entry of entries) {
+    if (await matchesEntry(entry, address, input, network)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether a spending limit applies to a transfer
+ */
+function limitApplies(limit: SpendingLimitFileConfig, check: TransferCheck): boolean {
+  if (limit.network && limit.network.toLowerCase() !== check.network.toLowerCase()) {
+    return false;
+  }
+
+  if (limit.account && limit.account !== '*') {
+    const byAlias = check.accountAlias?.toLowerCase() === limit.account.toLowerCase();
+    const byAddress = utils.isValidAddress(limit.account) && num.toBigInt(limit.account) === num.toBigInt(check.accountAddress);
+    if (!byAlias && !byAddress) return false;
+  }
+
+  if (limit.token && limit.token !== '*') {
+    const bySymbol = check.tokenSymbol?.toUpperCase() === limit.token.toUpperCase();
+    const byAddress = utils.isValidAddress(limit.token) && num.toBigInt(limit.token) === num.toBigInt(check.tokenAddress);
+    if (!bySymbol && !byAddress) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Which transfer guardrails the config file sets
+ * @returns Whether recipient lists and spending limits are configured
+ */
+export function getTransferGuardrails(): { recipientLists: boolean; limits: boolean } {
+  const { recipients = {}, limits = [] } = getConfig().guardrails ?? {};
+  return {
+    recipientLists: Boolean(recipients.allow?.length || recipients.deny?.length),
+    limits: limits.length > 0
+  };
+}
+
+/**
+ * Check a token transfer against the recipient lists and spending limits
+ * A transfer that passes is counted against the daily limits immediately, so concurrent
+ * transfers cannot overshoot them; release the reservation if the transaction is not sent.
+ * @param check The transfer about to be signed
+ * @returns A reservation to confirm or release, or null if no limit tracks this transfer
+ * @throws PolicyViolationError if a guardrail rejects the transfer
+ */
+export async function checkTransfer(check: TransferCheck): Promise<SpendReservation | null> {
+  return checkTransfers([check]);
+}
+
+/**
+ * Check the token transfers of one transaction against the recipient lists and spending limits
+ * Every recipient is checked, and the transfers of each token are added up, so a batch counts
+ * as one transaction against the per-transaction limits. The transaction is rejected as a
+ * whole if one transfer breaks a guardrail; otherwise the totals are counted against the
+ * daily limits immediately, like a single transfer. Unlimited approvals of a token with a
+ * spending limit are refused unless `allowUnlimitedApprovals` is set, and never counted.
+ * @param checks The transfers about to be signed
+ * @returns A reservation covering every transfer, or null if no limit tracks them
+ * @throws PolicyViolationError if a guardrail rejects one of the transfers
+ */
+export async function checkTransfers(checks: TransferCheck[]): Promise<SpendReservation | null> {
+  const guardrails = getConfig().guardrails;
+  if (!guardrails) return null;
+
+  const { recipients = {}, limits = [] } = guardrails;
+
+  for (const check of checks) {
+    if (check.paymasterFee) continue;
+
+    const recipientDetails = { recipient: check.recipient, recipientInput: check.recipientInput };
+
+    if (recipients.deny?.length && await matchesAny(recipients.deny, check.recipient, check.recipientInput, check.network)) {
+      throw new PolicyViolationError('recipient_denied', `Recipient ${check.recipientInput} is on the recipient denylist`, recipientDetails);
+    }
+
+    if (recipients.allow?.length && !await matchesAny(recipients.allow, check.recipient, check.recipientInput, check.network)) {
+      throw new PolicyViolationError('recipient_not_allowed', `Recipient ${check.recipientInput} is not on the recipient allowlist`, recipientDetails);
+    }
+  }
+
+  for (const check of checks) {
+    if (!check.unlimitedApproval || guardrails.allowUnlimitedApprovals) continue;
+
+    const limit = limits.find(limit => limitApplies(limit, check));
+    if (limit) {
+      const token = check.tokenSymbol ?? normalizeAddress(check.tokenAddress);
+      throw new PolicyViolationError(
+        'unlimited_approval',
+        `Unlimited approval of ${token} to ${check.recipientInput} is not allowed while a spending limit applies to the token; approve a fixed amount instead`,
+        { account: check.accountAlias ?? normalizeAddress(check.accountAddress), token, spender: check.recipient, limit }
+      );
+    }
+  }
+
+  // Total per account and token of the transaction; unlimited approvals have no amount to count
+  const totals = new Map<string, { check: TransferCheck; count: number }>();
+  for (const check of checks.filter(check => !check.unlimitedApproval)) {
+    const key = spendKey(check.network, check.accountAddress, check.tokenAddress);
+    const total = totals.get(key);
+    totals.set(key, total
+      ? { check: { ...total.check, amount: total.check.amount + check.amount }, count: total.count + 1 }
+      : { check, count: 1 });
+  }
+
+  const reserved: Array<{ key: string; recent: SpendRecord[]; record: SpendRecord }> = [];
+
+  for (const [key, { check, count }] of totals) {
+    const applicable = limits.filter(limit => limitApplies(limit, check));
+    if (applicable.length === 0) continue;
+
+    const recent = getRecentSpends(key);
+    const spentToday = recent.reduce((total, record) => total + BigInt(record.amount), BigInt(0));
+
+    const limitDetails = {
+      account: check.accountAlias ?? normalizeAddress(check.accountAddress),
+      token: check.tokenSymbol ?? normalizeAddress(check.tokenAddress),
+      amount: formatAmount(check.amount, check.decimals, { trimZeros: true }),
+      ...(count > 1 && { transfers: count })
+    };
+    const description = count > 1 ? `${count} transfers totalling ${limitDetails.amount}` : `Transfer of ${limitDetails.amount}`;
+
+    for (const limit of applicable) {
+      if (limit.perTransaction !== undefined && check.amount > toTokenUnits(limit.perTransaction, check.decimals)) {
+        throw new PolicyViolationError(
+          'per_transaction_limit',
+          `${description} exceeds the per-transaction limit of ${limit.perTransaction}`,
+          { ...limitDetails, limit: limit.perTransaction }
+        );
+      }
+
+      if (limit.daily !== undefined) {
+        const dailyLimit = toTokenUnits(limit.daily, check.decimals);
+        if (spentToday + check.amount > dailyLimit) {
+          const remaining = dailyLimit > spentToday ? dailyLimit - spentToday : BigInt(0);
+          throw new PolicyViolationError(
+            'daily_limit',
+            `${description} exceeds the daily limit of ${limit.daily} (remaining: ${formatAmount(remaining, check.decimals, { trimZeros: true })})`,
+            {
+              ...limitDetails,
+              limit: limit.daily,
+              spentLast24h: formatAmount(spentToday, check.decimals, { trimZeros: true }),
+              remaining: formatAmount(remaining, check.decimals, { trimZeros: true })
+            }
+          );
+        }
+      }
+    }
+
+    reserved.push({ key, recent, record: { at: Date.now(), amount: check.amount.toString(), txHash: null } });
+  }
+
+  if (reserved.length === 0) return null;
+
+  // Count the transfers now; they are dropped again if the transaction is never submitted
+  const state = loadSpendState();
+  for (const { key, recent, record } of reserved) {
+    state.spends[key] = [...recent, record];
+  }
+  saveSpendState();
+
+  return {
+    confirm(txHash: string) {
+      reserved.forEach(({ record }) => { record.txHash = txHash; });
+      saveSpendState();
+    },
+    release() {
+      const spends = loadSpendState().spends;
+      for (const { key, record } of reserved) {
+        if (spends[key]) {
+          spends[key] = spends[key].filter(existing => existing !== record);
+        }
+      }
+      saveSpendState();
+    }
+  };
+}
+
+/**
+ * Check a contract call against the contract allowlist
+ * @param check The call about to be signed
+ * @throws PolicyViolationError if the contract or entrypoint is not allowed
+ */
+export async function checkContractCall(check: ContractCallCheck): Promise<void> {
+  const rules = getConfig().guardrails?.contracts?.allow;
+  if (!rules) return;
+
+  const details = { contract: check.contractAddress, contractInput: check.contractInput, entrypoint: check.entrypoint };
+  let contractListed = false;
+
+  for (const rule of rules) {
+    if (!await matchesEntry(rule.contract, check.contractAddress, check.contractInput, check.network)) continue;
+
+    contractListed = true;
+    if (!rule.entrypoints || rule.entrypoints.includes(check.entrypoint)) {
+      return;
+    }
+  }
+
+  if (contractListed) {
+    throw new PolicyViolationError('entrypoint_not_allowed', `Entrypoint ${check.entrypoint} is not allowed on contract ${check.contractInput}`, details);
+  }
+
+  throw new PolicyViolationError('contract_not_allowed', `Contract ${check.contractInput} is not on the contract allowlist`, details);
+}
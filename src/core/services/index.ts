@@ -1,11 +1,35 @@
 // Export all services
 export * from './clients.js';
+export * from './endpoints.js';
+export * from './cache.js';
+export * from './abis.js';
+export * from './accounts.js';
+export * from './accountdeployment.js';
+export * from './guardrails.js';
 export * from './balance.js';
+export * from './portfolio.js';
 export * from './blocks.js';
 export * from './contracts.js';
+export * from './calldata.js';
+export * from './introspection.js';
+export * from './classifier.js';
+export * from './events.js';
 export * from './tokens.js';
+export * from './tokenlist.js';
+export * from './allowances.js';
 export * from './transactions.js';
+export * from './explainer.js';
+export * from './trace.js';
+export * from './confirmation.js';
+export * from './nonces.js';
 export * from './transfer.js';
+export * from './deployment.js';
+export * from './simulation.js';
+export * from './outsideexecution.js';
+export * from './paymaster.js';
+export * from './fees.js';
+export * from './estimation.js';
+export * from './signatures.js';
 export * from './starknetid.js';
 export { utils as helpers } from './utils.js';
 export { utils } from './utils.js';
@@ -0,0 +1,213 @@
+import type { Abi } from 'starknet';
+import { getClass, getClassHashAt } from './contracts.js';
+import { parseStarknetAddress } from './clients.js';
+
+/**
+ * Interface standard detected from a contract's ABI
+ */
+export type ContractStandard = 'ERC20' | 'ERC721' | 'ERC1155' | 'account' | 'upgradeable' | 'proxy' | 'SRC5';
+
+/**
+ * A named, typed parameter
+ */
+export interface AbiParameter {
+  name: string;
+  type: string;
+}
+
+/**
+ * A function of a contract's interface
+ */
+export interface FunctionSummary {
+  name: string;
+  interface: string | null; // Interface the function is implemented from (Cairo 1)
+  mutability: 'view' | 'external';
+  inputs: AbiParameter[];
+  outputs: string[];
+}
+
+/**
+ * An event a contract can emit
+ */
+export interface EventSummary {
+  name: string;
+  keys: AbiParameter[];
+  data: AbiParameter[];
+}
+
+/**
+ * Readable summary of a contract class, without its program
+ */
+export interface ContractDescription {
+  classHash: string;
+  address: string | null;
+  cairoVersion: 0 | 1;
+  sierraVersion: string | null;
+  standards: ContractStandard[];
+  constructor: { inputs: AbiParameter[] } | null;
+  interfaces: Array<{ name: string; functions: string[] }>;
+  functions: FunctionSummary[];
+  l1Handlers: FunctionSummary[];
+  events: EventSummary[];
+  structs: Array<{ name: string; members: AbiParameter[] }>;
+  enums: Array<{ name: string; variants: AbiParameter[] }>;
+}
+
+// Function names (snake_case or camelCase) a contract must expose to match a standard
+const STANDARD_FUNCTIONS: Array<{ standard: ContractStandard; functions: string[][] }> = [
+  {
+    standard: 'ERC20',
+    functions: [['balance_of', 'balanceOf'], ['transfer'], ['transfer_from', 'transferFrom'], ['approve'], ['allowance'], ['total_supply', 'totalSupply']]
+  },
+  {
+    standard: 'ERC721',
+    functions: [['balance_of', 'balanceOf'], ['owner_of', 'ownerOf'], ['transfer_from', 'transferFrom'], ['get_approved', 'getApproved'], ['set_approval_for_all', 'setApprovalForAll']]
+  },
+  {
+    standard: 'ERC1155',
+    functions: [['balance_of_batch', 'balanceOfBatch'], ['safe_transfer_from', 'safeTransferFrom'], ['safe_batch_transfer_from', 'safeBatchTransferFrom']]
+  },
+  {
+    standard: 'account',
+    functions: [['__execute__'], ['__validate__']]
+  },
+  {
+    standard: 'upgradeable',
+    functions: [['upgrade', 'upgradeTo', 'upgrade_to']]
+  },
+  {
+    standard: 'proxy',
+    functions: [['__default__']]
+  },
+  {
+    standard: 'SRC5',
+    functions: [['supports_interface', 'supportsInterface']]
+  }
+];
+
+// Core library types left out of the struct and enum lists
+const CORE_TYPE_PREFIX = 'core::';
+
+/**
+ * Get every function of an ABI with the interface it belongs to
+ */
+function listFunctions(abi: Abi): Array<{ entry: any; interfaceName: string | null }> {
+  return abi.flatMap((entry: any) => {
+    if (entry.type === 'interface') {
+      return (entry.items ?? [])
+        .filter((item: any) => item.type === 'function')
+        .map((item: any) => ({ entry: item, interfaceName: entry.name as string }));
+    }
+    return entry.type === 'function' ? [{ entry, interfaceName: null }] : [];
+  });
+}
+
+function toParameters(entries: any[] = []): AbiParameter[] {
+  return entries.map(({ name, type }) => ({ name, type }));
+}
+
+function summarizeFunction(entry: any, interfaceName: string | null): FunctionSummary {
+  const mutability = entry.state_mutability ?? entry.stateMutability;
+  return {
+    name: entry.name,
+    interface: interfaceName,
+    mutability: mutability === 'view' ? 'view' : 'external',
+    inputs: toParameters(entry.inputs),
+    outputs: (entry.outputs ?? []).map((output: any) => output.name ? `${output.name}: ${output.type}` : output.type)
+  };
+}
+
+/**
+ * Detect the standards a contract implements from the functions in its ABI
+ * @param abi Contract ABI (Cairo 0 or Cairo 1)
+ * @returns The standards whose functions are all present
+ */
+export function detectStandards(abi: Abi): ContractStandard[] {
+  const names = new Set(listFunctions(abi).map(({ entry }) => entry.name as string));
+
+  return STANDARD_FUNCTIONS
+    .filter(({ functions }) => functions.every(alternatives => alternatives.some(name => names.has(name))))
+    .map(({ standard }) => standard);
+}
+
+/**
+ * Summarize an ABI: interfaces, functions, events, constructor and user-defined types
+ * @param abi Contract ABI (Cairo 0 or Cairo 1)
+ * @returns The summary, without class metadata
+ */
+export function summarizeAbi(abi: Abi): Omit<ContractDescription, 'classHash' | 'address' | 'cairoVersion' | 'sierraVersion'> {
+  const functions = listFunctions(abi).map(({ entry, interfaceName }) => summarizeFunction(entry, interfaceName));
+  const constructorEntry = abi.find((entry: any) => entry.type === 'constructor');
+
+  const events: EventSummary[] = abi
+    .filter((entry: any) => entry.type === 'event')
+    .flatMap((entry: any): EventSummary[] => {
+      // Cairo 1 event enums only wrap the event structs listed alongside them
+      if (entry.kind === 'enum') return [];
+      if (entry.kind === 'struct') {
+        return [{
+          name: entry.name,
+          keys: toParameters(entry.members.filter((member: any) => member.kind === 'key')),
+          data: toParameters(entry.members.filter((member: any) => member.kind !== 'key'))
+        }];
+      }
+      // Cairo 0 events
+      return [{ name: entry.name, keys: toParameters(entry.keys), data: toParameters(entry.data) }];
+    });
+
+  return {
+    standards: detectStandards(abi),
+    constructor: constructorEntry ? { inputs: toParameters((constructorEntry as any).inputs) } : null,
+    interfaces: abi
+      .filter((entry: any) => entry.type === 'interface')
+      .map((entry: any) => ({
+        name: entry.name,
+        functions: (entry.items ?? []).filter((item: any) => item.type === 'function').map((item: any) => item.name)
+      })),
+    functions,
+    l1Handlers: abi
+      .filter((entry: any) => entry.type === 'l1_handler')
+      .map((entry: any) => summarizeFunction(entry, null)),
+    events,
+    structs: abi
+      .filter((entry: any) => entry.type === 'struct' && !entry.name.startsWith(CORE_TYPE_PREFIX) && entry.name !== 'Uint256')
+      .map((entry: any) => ({ name: entry.name, members: toParameters(entry.members) })),
+    enums: abi
+      .filter((entry: any) => entry.type === 'enum' && !entry.name.startsWith(CORE_TYPE_PREFIX))
+      .map((entry: any) => ({ name: entry.name, variants: toParameters(entry.variants) }))
+  };
+}
+
+/**
+ * Describe the interface of a contract or class: functions with their mutability and typed
+ * inputs and outputs, events, constructor, user-defined types and detected standards
+ * @param params Contract address (or Starknet ID already resolved), or class hash
+ * @param network Network name (mainnet, sepolia)
+ * @returns The contract description
+ */
+export async function describeContract(
+  params: {
+    contractAddress?: string;
+    classHash?: string;
+  },
+  network = 'mainnet'
+): Promise<ContractDescription> {
+  if (!params.contractAddress && !params.classHash) {
+    throw new Error('Either contractAddress or classHash is required');
+  }
+
+  const address = params.contractAddress ? parseStarknetAddress(params.contractAddress) : null;
+  const classHash = params.classHash ?? await getClassHashAt(address!, network);
+
+  const contractClass: any = await getClass(classHash, network);
+  const isSierra = 'sierra_program' in contractClass;
+  const abi: Abi = typeof contractClass.abi === 'string' ? JSON.parse(contractClass.abi) : contractClass.abi ?? [];
+
+  return {
+    classHash,
+    address,
+    cairoVersion: isSierra ? 1 : 0,
+    sierraVersion: isSierra ? contractClass.contract_class_version ?? null : null,
+    ...summarizeAbi(abi)
+  };
+}
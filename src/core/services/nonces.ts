@@ -0,0 +1,165 @@
+import { num, type Account } from 'starknet';
+import { getProvider, parseStarknetAddress } from './clients.js';
+
+/**
+ * A transaction submitted by the server that is not accepted yet
+ */
+export interface PendingTransaction {
+  txHash: string;
+  nonce: string;
+  submittedAt: string;
+  finality: string; // NOT_RECEIVED or RECEIVED until accepted or rejected
+}
+
+/**
+ * Nonces of an account, on-chain and as reserved by the server
+ */
+export interface NonceInfo {
+  address: string;
+  latestNonce: string; // Nonce in the latest accepted block
+  pendingNonce: string; // Nonce in the pending block
+  nextNonce: string; // Nonce the next write from this server will use
+  pendingTransactions: PendingTransaction[];
+}
+
+/**
+ * Nonce state of one account on one network
+ */
+interface AccountNonces {
+  next: bigint | null; // Null until fetched, and after a failed submission
+  lock: Promise<void>; // Resolves when the previous submission is done
+  pending: Map<string, { nonce: bigint; submittedAt: string }>;
+}
+
+// Nonce state by network and address
+const accounts = new Map<string, AccountNonces>();
+
+// Errors of a transaction sent with a nonce the account has already used or not reached yet
+const NONCE_ERROR = /invalid.*nonce|nonce.*(invalid|too old|too low|too high)|InvalidNonce/i;
+
+/**
+ * Get the nonce state of an account, creating it on first use
+ */
+function getState(address: string, network: string): AccountNonces {
+  const key = `${network.toLowerCase()}:${parseStarknetAddress(address)}`;
+  let state = accounts.get(key);
+  if (!state) {
+    state = { next: null, lock: Promise.resolve(), pending: new Map() };
+    accounts.set(key, state);
+  }
+  return state;
+}
+
+/**
+ * Fetch the nonce of an account from the pending block, which counts transactions the
+ * sequencer has already accepted
+ */
+async function fetchNonce(address: string, network: string): Promise<bigint> {
+  return num.toBigInt(await getProvider(network).getNonceForAddress(address, 'pending'));
+}
+
+/**
+ * Submit a transaction with a nonce reserved for its account
+ * Submissions from the same account are serialized, so concurrent writes get consecutive
+ * nonces instead of all using the on-chain nonce. A submission rejected for its nonce is
+ * retried once with the nonce resynced from the node.
+ * @param account The sending account
+ * @param network Network name
+ * @param submit Sends the transaction with the given nonce
+ * @returns The response of the submission
+ */
+export async function submitWithNonce<T extends { transaction_hash: string }>(
+  account: Account,
+  network: string,
+  submit: (nonce: string) => Promise<T>
+): Promise<T> {
+  const state = getState(account.address, network);
+
+  // Wait for the previous submission from this account
+  const previous = state.lock;
+  let release!: () => void;
+  state.lock = new Promise(resolve => { release = resolve; });
+  await previous;
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      const nonce = state.next ?? await fetchNonce(account.address, network);
+
+      try {
+        const response = await submit(num.toHex(nonce));
+        state.next = nonce + BigInt(1);
+        state.pending.set(num.toHex(response.transaction_hash), { nonce, submittedAt: new Date().toISOString() });
+        return response;
+      } catch (error) {
+        // The nonce is unknown after a failure: it may or may not have been used
+        state.next = null;
+        if (attempt > 0 || !NONCE_ERROR.test((error as Error).message ?? '')) {
+          throw error;
+        }
+        console.error(`Nonce ${nonce} of ${account.address} was rejected, resyncing from ${network}`);
+      }
+    }
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Get the transactions the server submitted for an account that are not accepted yet
+ * Transactions accepted on L2 or rejected are dropped from the list as they are seen.
+ * @param address Account address
+ * @param network Network name (mainnet, sepolia)
+ * @returns The transactions, oldest nonce first
+ */
+export async function getPendingTransactions(address: string, network = 'mainnet'): Promise<PendingTransaction[]> {
+  const state = getState(address, network);
+  const provider = getProvider(network);
+  const result: PendingTransaction[] = [];
+
+  for (const [txHash, { nonce, submittedAt }] of state.pending) {
+    let finality = 'NOT_RECEIVED';
+    try {
+      const status: any = await provider.getTransactionStatus(txHash);
+      finality = status.finality_status;
+    } catch {
+      // Nodes answer with an error for transactions they have not received yet
+    }
+
+    if (finality === 'ACCEPTED_ON_L2' || finality === 'ACCEPTED_ON_L1' || finality === 'REJECTED') {
+      state.pending.delete(txHash);
+      continue;
+    }
+    result.push({ txHash, nonce: num.toHex(nonce), submittedAt, finality });
+  }
+
+  return result.sort((a, b) => Number(num.toBigInt(a.nonce) - num.toBigInt(b.nonce)));
+}
+
+/**
+ * Get the nonces of an account: on-chain, and the one the server will use next
+ * @param address Account address
+ * @param network Network name (mainnet, sepolia)
+ * @returns Latest and pending on-chain nonces, the next nonce and the unconfirmed transactions
+ */
+export async function getNonceInfo(address: string, network = 'mainnet'): Promise<NonceInfo> {
+  const formattedAddress = parseStarknetAddress(address);
+  const provider = getProvider(network);
+  const [latestNonce, pendingNonce, pendingTransactions] = await Promise.all([
+    provider.getNonceForAddress(formattedAddress, 'latest'),
+    provider.getNonceForAddress(formattedAddress, 'pending'),
+    getPendingTransactions(formattedAddress, network)
+  ]);
+
+  // A reservation ahead of the pending block covers transactions not included yet
+  const reserved = getState(formattedAddress, network).next;
+  const pending = num.toBigInt(pendingNonce);
+  const next = reserved !== null && reserved > pending ? reserved : pending;
+
+  return {
+    address: formattedAddress,
+    latestNonce: num.toHex(latestNonce),
+    pendingNonce: num.toHex(pendingNonce),
+    nextNonce: num.toHex(next),
+    pendingTransactions
+  };
+}
@@ -0,0 +1,151 @@
+import {
+  num,
+  outsideExecution,
+  OutsideExecutionVersion,
+  type Account,
+  type Call,
+  type OutsideTransaction
+} from 'starknet';
+import { getAccount, parseStarknetAddress } from './clients.js';
+import { utils } from './utils.js';
+import { prepareCalls } from './transfer.js';
+import type { NamedArgs } from './calldata.js';
+
+// Default validity of an outside execution
+const DEFAULT_VALID_FOR_SECONDS = 3600;
+
+// Slack for the clock of the sequencer being behind ours
+const CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Time window and submitter of an outside execution
+ */
+export interface OutsideExecutionOptions {
+  caller?: string; // Address allowed to submit it, or ANY_CALLER (default)
+  validForSeconds?: number; // From now, defaults to one hour
+}
+
+/**
+ * A signed SNIP-9 outside execution, ready for a relayer to submit
+ */
+export interface SignedOutsideExecution {
+  signer: string;
+  version: '1' | '2'; // SNIP-9 version the account supports
+  outsideExecution: {
+    caller: string;
+    nonce: string;
+    executeAfter: number;
+    executeBefore: number;
+    calls: Array<{ to: string; selector: string; calldata: string[] }>;
+  };
+  signature: string[];
+  executeFromOutsideCall: Call; // Call the relayer makes from its own account, paying the gas
+}
+
+/**
+ * Sign calls as a SNIP-9 outside execution of an account
+ * Another account (the caller) then submits them with execute_from_outside and pays the gas,
+ * so the signing account needs no gas tokens.
+ * @param account The signing account
+ * @param calls Calls to execute from the account
+ * @param options Allowed caller and validity
+ * @returns The signed outside transaction
+ */
+export async function signOutsideExecution(
+  account: Account,
+  calls: Call[],
+  options: OutsideExecutionOptions = {}
+): Promise<OutsideTransaction> {
+  const version = await account.getSnip9Version();
+  if (version === OutsideExecutionVersion.UNSUPPORTED) {
+    throw new Error(`Account ${account.address} does not support outside execution (SNIP-9)`);
+  }
+
+  const validForSeconds = options.validForSeconds ?? DEFAULT_VALID_FOR_SECONDS;
+  if (validForSeconds <= 0) {
+    throw new Error('validForSeconds must be positive');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const caller = !options.caller || options.caller.toUpperCase() === 'ANY_CALLER'
+    ? 'ANY_CALLER'
+    : parseStarknetAddress(options.caller);
+
+  return account.getOutsideTransaction({
+    caller,
+    execute_after: now - CLOCK_SKEW_SECONDS,
+    execute_before: now + validForSeconds
+  }, calls, version);
+}
+
+/**
+ * Render a signed outside transaction as plain JSON, with the call that submits it
+ * @param outsideTransaction The signed outside transaction
+ * @returns The serializable outside execution
+ */
+export function serializeOutsideExecution(outsideTransaction: OutsideTransaction): SignedOutsideExecution {
+  const { outsideExecution: execution, signature } = outsideTransaction;
+  const felts = Array.isArray(signature) ? signature : [signature.r, signature.s];
+
+  return {
+    signer: num.toHex(outsideTransaction.signerAddress),
+    version: outsideTransaction.version as '1' | '2',
+    outsideExecution: {
+      caller: num.toHex(execution.caller),
+      nonce: num.toHex(execution.nonce),
+      executeAfter: Number(execution.execute_after),
+      executeBefore: Number(execution.execute_before),
+      calls: execution.calls.map(call => ({
+        to: num.toHex(call.to),
+        selector: num.toHex(call.selector),
+        calldata: (call.calldata as any[]).map(felt => num.toHex(felt))
+      }))
+    },
+    signature: felts.map(felt => num.toHex(felt)),
+    executeFromOutsideCall: outsideExecution.buildExecuteFromOutsideCall(outsideTransaction)[0]
+  };
+}
+
+/**
+ * Build and sign a SNIP-9 outside execution with a configured account
+ * The calls are checked against the contract allowlist, recipient lists and spending limits like
+ * the execute tools, since whoever holds the payload can submit them until it expires; their
+ * token transfers count against the daily limits as soon as the payload is signed.
+ * @param params Signer, calls, allowed caller (address, Starknet ID or ANY_CALLER) and validity
+ * @param network Network name (mainnet, sepolia)
+ * @returns The signed outside execution and the execute_from_outside call that submits it
+ */
+export async function buildOutsideExecution(
+  params: OutsideExecutionOptions & {
+    account?: string; // Alias of a configured account
+    privateKey?: string;
+    accountAddress?: string;
+    calls: Array<{ contractAddress: string; entrypoint: string; calldata?: any[]; args?: NamedArgs }>;
+  },
+  network = 'mainnet'
+): Promise<SignedOutsideExecution> {
+  const account = getAccount({
+    account: params.account,
+    privateKey: params.privateKey,
+    address: params.accountAddress
+  }, network);
+
+  const { calls, reservation } = await prepareCalls(params.calls, network, { alias: params.account, address: account.address });
+
+  let signed: SignedOutsideExecution;
+  try {
+    // The caller may be given as a Starknet ID
+    const caller = params.caller && params.caller.toUpperCase() !== 'ANY_CALLER'
+      ? await utils.resolveNameOrAddress(params.caller, network)
+      : params.caller;
+
+    signed = serializeOutsideExecution(await signOutsideExecution(account, calls, { ...params, caller }));
+  } catch (error) {
+    reservation?.release();
+    throw error;
+  }
+
+  // Anyone holding the payload can submit it, so its transfers count as spent once it is signed
+  reservation?.confirm(`outside-execution:${signed.outsideExecution.nonce}`);
+  return signed;
+}
@@ -0,0 +1,220 @@
+import {
+  Account,
+  CallData,
+  constants,
+  num,
+  outsideExecution,
+  uint256,
+  type Call,
+  type OutsideTransaction
+} from 'starknet';
+import { getConfig } from '../config.js';
+import { getAccount, getProvider } from './clients.js';
+import { getRegisteredAccount } from './accounts.js';
+import { resolveFeeDetails, type FeeSummary, type FeeToken } from './fees.js';
+import { signOutsideExecution } from './outsideexecution.js';
+import { submitWithNonce } from './nonces.js';
+import { TOKEN_ADDRESSES } from './tokenlist.js';
+
+// Name of the built-in paymaster configured under `paymaster` in the config file
+const LOCAL_PAYMASTER = 'local';
+
+// Default multiplier applied to the gas estimate the local paymaster charges
+const DEFAULT_CHARGE_MARGIN = 1.5;
+
+/**
+ * Paymaster options of the write operations
+ */
+export interface PaymasterOptions {
+  paymaster?: string; // Submit through this paymaster as a SNIP-9 outside execution
+  gasToken?: string; // Token to pay the paymaster in; omitted for a sponsored transaction
+}
+
+/**
+ * What a paymaster asks for before submitting calls of an account
+ */
+export interface PaymasterQuote {
+  caller: string; // Account that submits the outside execution
+  gasToken: string | null; // Null when the paymaster sponsors the fee
+  gasTokenAmount: string | null; // In the token's smallest unit
+  feeCalls: Call[]; // Calls appended to the account's calls to pay the paymaster
+}
+
+/**
+ * A service that submits SNIP-9 outside executions and pays their gas
+ * Implementations quote the fee calls to append, then submit the signed outside execution.
+ */
+export interface Paymaster {
+  readonly name: string;
+  quote(params: { accountAddress: string; calls: Call[]; gasToken?: string }, network: string): Promise<PaymasterQuote>;
+  submit(outsideTransaction: OutsideTransaction, network: string): Promise<{ txHash: string; fee?: FeeSummary }>;
+}
+
+/**
+ * How a transaction was paid through a paymaster
+ */
+export interface PaymasterReceipt {
+  paymaster: string;
+  caller: string;
+  sponsored: boolean;
+  gasToken: string | null;
+  gasTokenAmount: string | null;
+}
+
+// Paymasters by name
+const registry = new Map<string, Paymaster>();
+
+/**
+ * Register a paymaster, replacing any paymaster with the same name
+ * @param paymaster The paymaster
+ */
+export function registerPaymaster(paymaster: Paymaster) {
+  registry.set(paymaster.name.toLowerCase(), paymaster);
+}
+
+/**
+ * Create the local paymaster: a configured relayer account submits outside executions and
+ * pays their gas, either for free or reimbursed in ETH or STRK. It stands in for a paymaster
+ * service when testing sponsored flows.
+ * @param options Relayer account alias, whether it sponsors fees, and the margin it charges
+ * @returns The paymaster
+ */
+export function createLocalPaymaster(options: { relayer: string; sponsor?: boolean; chargeMargin?: number }): Paymaster {
+  const chargeMargin = Math.max(options.chargeMargin ?? DEFAULT_CHARGE_MARGIN, 1);
+
+  return {
+    name: LOCAL_PAYMASTER,
+
+    async quote({ accountAddress, calls, gasToken }, network) {
+      const caller = getRegisteredAccount(options.relayer, network).address;
+
+      if (!gasToken) {
+        if (!options.sponsor) {
+          throw new Error(`Paymaster "${LOCAL_PAYMASTER}" does not sponsor transactions: pass gasToken (ETH or STRK)`);
+        }
+        return { caller, gasToken: null, gasTokenAmount: null, feeCalls: [] };
+      }
+
+      const token = (Object.keys(TOKEN_ADDRESSES) as FeeToken[]).find(symbol =>
+        symbol === gasToken.toUpperCase() || (num.isHex(gasToken) && num.toBigInt(gasToken) === num.toBigInt(TOKEN_ADDRESSES[symbol]))
+      );
+      if (!token) {
+        throw new Error(`Paymaster "${LOCAL_PAYMASTER}" only accepts ETH or STRK as gas token`);
+      }
+
+      // Charge what the calls would cost the account itself in that token, plus the margin;
+      // the signature is not known yet, so validation is skipped
+      const estimator = new Account(getProvider(network), accountAddress, '0x1');
+      const estimate = await estimator.estimateInvokeFee(calls, {
+        version: token === 'STRK' ? constants.TRANSACTION_VERSION.V3 : constants.TRANSACTION_VERSION.V1,
+        skipValidate: true
+      });
+      const amount = num.toBigInt(estimate.overall_fee) * BigInt(Math.round(chargeMargin * 100)) / BigInt(100);
+
+      return {
+        caller,
+        gasToken: TOKEN_ADDRESSES[token],
+        gasTokenAmount: amount.toString(),
+        feeCalls: [{
+          contractAddress: TOKEN_ADDRESSES[token],
+          entrypoint: 'transfer',
+          calldata: CallData.compile({ recipient: caller, amount: uint256.bnToUint256(amount) })
+        }]
+      };
+    },
+
+    async submit(outsideTransaction, network) {
+      const relayer = getAccount({ account: options.relayer }, network);
+      const calls = outsideExecution.buildExecuteFromOutsideCall(outsideTransaction);
+
+      const { details, fee } = await resolveFeeDetails(details => relayer.estimateInvokeFee(calls, details));
+      const response = await submitWithNonce(relayer, network, nonce => relayer.execute(calls, { ...details, nonce }));
+
+      return { txHash: response.transaction_hash, fee };
+    }
+  };
+}
+
+/**
+ * Look up a paymaster by name
+ * The local paymaster is created from the `paymaster` section of the config file on first use.
+ * @param name Paymaster name
+ * @returns The paymaster
+ */
+export function getPaymaster(name: string): Paymaster {
+  const key = name.toLowerCase();
+
+  if (!registry.has(key) && key === LOCAL_PAYMASTER) {
+    const config = getConfig().paymaster;
+    if (!config?.relayer) {
+      throw new Error(`Paymaster "${LOCAL_PAYMASTER}" is not configured: set paymaster.relayer to an account alias in the config file`);
+    }
+    registerPaymaster(createLocalPaymaster({ relayer: config.relayer, sponsor: config.sponsor, chargeMargin: config.chargeMargin }));
+  }
+
+  const paymaster = registry.get(key);
+  if (!paymaster) {
+    const known = Array.from(registry.keys());
+    throw new Error(`Unknown paymaster "${name}". Available paymasters: ${known.length ? known.join(', ') : 'none'}`);
+  }
+
+  return paymaster;
+}
+
+/**
+ * Calls of an account quoted by a paymaster, ready to sign
+ */
+export interface QuotedPaymasterCalls {
+  paymaster: Paymaster;
+  quote: PaymasterQuote;
+  calls: Call[]; // The account's calls followed by the paymaster's fee calls
+}
+
+/**
+ * Get the calls a paymaster needs to submit calls of an account, fee calls included
+ * @param account The signing account
+ * @param calls Calls to execute
+ * @param options Paymaster name and gas token
+ * @param network Network name
+ * @returns The paymaster, its quote and every call to sign
+ */
+export async function quotePaymasterCalls(
+  account: Account,
+  calls: Call[],
+  options: PaymasterOptions,
+  network: string
+): Promise<QuotedPaymasterCalls> {
+  const paymaster = getPaymaster(options.paymaster!);
+  const quote = await paymaster.quote({ accountAddress: account.address, calls, gasToken: options.gasToken }, network);
+  return { paymaster, quote, calls: [...calls, ...quote.feeCalls] };
+}
+
+/**
+ * Submit quoted calls through their paymaster: sign them, with the paymaster's fee calls, as an
+ * outside execution only the paymaster may submit, and let it pay the gas
+ * @param account The signing account, which needs no gas tokens
+ * @param quoted Calls quoted with quotePaymasterCalls
+ * @param network Network name
+ * @returns The transaction hash, the fee the paymaster paid if it reports one, and how it was paid
+ */
+export async function submitWithPaymaster(
+  account: Account,
+  quoted: QuotedPaymasterCalls,
+  network: string
+): Promise<{ txHash: string; fee: FeeSummary | null; receipt: PaymasterReceipt }> {
+  const { paymaster, quote, calls: signedCalls } = quoted;
+  const outsideTransaction = await signOutsideExecution(account, signedCalls, { caller: quote.caller });
+  const { txHash, fee } = await paymaster.submit(outsideTransaction, network);
+
+  return {
+    txHash,
+    fee: fee ?? null,
+    receipt: {
+      paymaster: paymaster.name,
+      caller: quote.caller,
+      sponsored: quote.feeCalls.length === 0,
+      gasToken: quote.gasToken,
+      gasTokenAmount: quote.gasTokenAmount
+    }
+  };
+}
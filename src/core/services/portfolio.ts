@@ -0,0 +1,144 @@
+import { byteArray, num, shortString } from 'starknet';
+import { getBatchProvider, parseStarknetAddress } from './clients.js';
+import { formatAmount, readU256, TOKEN_LIST } from './tokenlist.js';
+import { utils } from './utils.js';
+
+// Calls sent in one JSON-RPC batch; nodes reject batches above their own limit
+const BATCH_SIZE = 50;
+
+/**
+ * Balance of one token in a portfolio
+ */
+export interface TokenHolding {
+  token: string;
+  symbol: string | null; // Null when an extra token has no readable symbol
+  decimals: number;
+  raw: string;
+  formatted: string;
+}
+
+/**
+ * Read a symbol returned as a short string (Cairo 0 and early Cairo 1 tokens) or a ByteArray
+ */
+function toSymbol(result: string[]): string | null {
+  if (result.length === 1) {
+    return shortString.decodeShortString(result[0]) || null;
+  }
+
+  const length = Number(num.toBigInt(result[0] ?? 0));
+  if (result.length !== length + 3) return null;
+
+  return byteArray.stringFromByteArray({
+    data: result.slice(1, length + 1),
+    pending_word: result[length + 1],
+    pending_word_len: Number(num.toBigInt(result[length + 2]))
+  }) || null;
+}
+
+/**
+ * Run tasks in chunks of BATCH_SIZE; the calls started by one chunk go out as one batch
+ * @param items Items to process
+ * @param task Starts the calls for one item
+ * @returns The settled result of every item, in order
+ */
+async function inBatches<T, R>(items: T[], task: (item: T) => Promise<R>): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    results.push(...await Promise.allSettled(items.slice(i, i + BATCH_SIZE).map(task)));
+  }
+  return results;
+}
+
+/**
+ * Get the non-zero token balances of an address
+ * The tokens of the bundled list for the network are checked, plus any extra tokens given,
+ * whose symbol and decimals are read from the contract. Balance calls are sent as JSON-RPC
+ * batches, so hundreds of tokens take a handful of requests.
+ * @param address Starknet address or Starknet ID
+ * @param network Network name (mainnet, sepolia)
+ * @param options Extra token addresses, and whether to keep zero balances
+ * @returns The balances in token list order, and the tokens whose calls failed
+ */
+export async function getPortfolio(
+  address: string,
+  network = 'mainnet',
+  options: { tokens?: string[]; includeZero?: boolean } = {}
+): Promise<{
+  address: string;
+  tokensChecked: number;
+  balances: TokenHolding[];
+  errors: Array<{ token: string; error: string }>;
+}> {
+  const owner = parseStarknetAddress(await utils.resolveNameOrAddress(address, network));
+  const provider = getBatchProvider(network);
+
+  const tokens = new Map<string, { symbol: string | null; decimals: number | null }>();
+  for (const token of TOKEN_LIST[network.toLowerCase()] ?? []) {
+    tokens.set(parseStarknetAddress(token.address), { symbol: token.symbol, decimals: token.decimals });
+  }
+
+  const extra: string[] = [];
+  for (const token of options.tokens ?? []) {
+    const tokenAddress = parseStarknetAddress(await utils.resolveNameOrAddress(token, network));
+    if (!tokens.has(tokenAddress)) {
+      tokens.set(tokenAddress, { symbol: null, decimals: null });
+      extra.push(tokenAddress);
+    }
+  }
+
+  const errors: Array<{ token: string; error: string }> = [];
+
+  // Symbol and decimals of the extra tokens; a token without decimals is reported as failed
+  const metadata = await inBatches(extra, token => Promise.all([
+    provider.callContract({ contractAddress: token, entrypoint: 'decimals', calldata: [] }),
+    provider.callContract({ contractAddress: token, entrypoint: 'symbol', calldata: [] }).catch(() => null)
+  ]));
+  metadata.forEach((result, index) => {
+    const token = extra[index];
+    if (result.status === 'fulfilled') {
+      const [decimalsResult, symbolResult] = result.value;
+      tokens.set(token, {
+        symbol: symbolResult ? toSymbol(symbolResult) : null,
+        decimals: Number(num.toBigInt(decimalsResult[0]))
+      });
+    } else {
+      tokens.delete(token);
+      errors.push({ token, error: (result.reason as Error).message });
+    }
+  });
+
+  // Most tokens expose balanceOf; newer Cairo 1 tokens may only have balance_of
+  const addresses = Array.from(tokens.keys());
+  const balanceResults = await inBatches(addresses, token =>
+    provider.callContract({ contractAddress: token, entrypoint: 'balanceOf', calldata: [owner] })
+      .catch(() => provider.callContract({ contractAddress: token, entrypoint: 'balance_of', calldata: [owner] }))
+  );
+
+  const balances: TokenHolding[] = [];
+  balanceResults.forEach((result, index) => {
+    const token = addresses[index];
+    if (result.status === 'rejected') {
+      errors.push({ token, error: (result.reason as Error).message });
+      return;
+    }
+
+    const amount = readU256(result.value);
+    if (amount === BigInt(0) && !options.includeZero) return;
+
+    const { symbol, decimals } = tokens.get(token)!;
+    balances.push({
+      token,
+      symbol,
+      decimals: decimals!,
+      raw: amount.toString(),
+      formatted: formatAmount(amount, decimals!)
+    });
+  });
+
+  return {
+    address: owner,
+    tokensChecked: tokens.size,
+    balances,
+    errors
+  };
+}
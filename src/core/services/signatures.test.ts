@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'bun:test';
+import { constants, outsideExecution, OutsideExecutionVersion } from 'starknet';
+import { PolicyViolationError } from './guardrails.js';
+import { signTypedData } from './signatures.js';
+
+const ETH = '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7';
+
+describe('signTypedData', () => {
+  test('outside executions are refused, so their calls cannot skip the guardrails', async () => {
+    const typedData = outsideExecution.getTypedData(
+      constants.StarknetChainId.SN_SEPOLIA,
+      { caller: 'ANY_CALLER', execute_after: 0, execute_before: 2000000000 },
+      1,
+      [{ contractAddress: ETH, entrypoint: 'transfer', calldata: ['0x0456', '1000', '0'] }],
+      OutsideExecutionVersion.V2
+    );
+
+    const error = await signTypedData({ account: 'treasury', typedData }, 'sepolia').catch(error => error);
+    expect(error).toBeInstanceOf(PolicyViolationError);
+    expect(error.rule).toBe('outside_execution_typed_data');
+
+    // Pointing primaryType elsewhere does not hide it
+    const renamed = await signTypedData({ account: 'treasury', typedData: { ...typedData, primaryType: 'Order' } }, 'sepolia')
+      .catch(error => error);
+    expect(renamed.rule).toBe('outside_execution_typed_data');
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  CallData,
+  num,
+  shortString,
+  typedData as typedDataUtils,
+  TypedDataRevision,
+  type TypedData
+} from 'starknet';
+import { getAccount, getProvider, parseStarknetAddress } from './clients.js';
+import { PolicyViolationError } from './guardrails.js';
+import { utils } from './utils.js';
+
+/**
+ * A SNIP-12 message signed by a configured account
+ */
+export interface SignedTypedData {
+  signer: string;
+  revision: TypedDataRevision;
+  chainId: string; // Chain ID of the domain, as a short string (e.g. SN_MAIN)
+  messageHash: string;
+  signature: string[];
+}
+
+/**
+ * Outcome of checking a signature against an account contract
+ */
+export interface SignatureVerification {
+  valid: boolean;
+  address: string;
+  messageHash: string;
+  entrypoint: string | null; // Validation entrypoint the account answered on
+  response: string[] | null; // Raw answer of the account, e.g. 'VALID' as a felt
+  reason?: string; // Why the signature was rejected
+}
+
+// Validation entrypoints: SRC-6 accounts, then accounts predating it (Argent 0.2, Braavos 0)
+const SIGNATURE_ENTRYPOINTS = ['is_valid_signature', 'isValidSignature'];
+
+// Revert messages of accounts that reject an invalid signature instead of returning 0
+const INVALID_SIGNATURE_ERRORS = [
+  'argent/invalid-signature',
+  'is invalid, with respect to the public key',
+  'INVALID_SIG'
+];
+
+// Domain name of SNIP-9 outside executions (versions 1 and 2)
+const OUTSIDE_EXECUTION_DOMAIN = 'Account.execute_from_outside';
+
+/**
+ * Check whether typed data is a SNIP-9 outside execution, which authorizes calls of the account
+ */
+function isOutsideExecution(typedData: TypedData): boolean {
+  const name = String(typedData.domain?.name ?? '');
+  const domainName = num.isHex(name) ? shortString.decodeShortString(name) : name;
+  return domainName === OUTSIDE_EXECUTION_DOMAIN
+    || [typedData.primaryType, ...Object.keys(typedData.types)].some(type => type.toLowerCase() === 'outsideexecution');
+}
+
+/**
+ * Decode a chain ID felt as its short string name
+ */
+function chainIdName(chainId: string): string {
+  return shortString.decodeShortString(num.toHex(chainId));
+}
+
+/**
+ * Check typed data against SNIP-12 and bind its domain to the chain of a network
+ * A domain without a chain ID gets the network's; a domain for another chain is rejected,
+ * so a signature made here cannot be replayed on the wrong network.
+ * @param typedData SNIP-12 typed data (revision 0 or 1)
+ * @param network Network name (mainnet, sepolia)
+ * @returns The typed data with its domain chain ID set, its revision and chain name
+ */
+async function prepareTypedData(
+  typedData: TypedData,
+  network: string
+): Promise<{ typedData: TypedData; revision: TypedDataRevision; chainId: string }> {
+  if (!typedData || typeof typedData !== 'object' || !typedData.types || !typedData.primaryType || !typedData.message) {
+    throw new Error('Typed data needs types, primaryType, domain and message');
+  }
+
+  const domain = { ...(typedData.domain ?? {}) };
+  // The revision is a string in SNIP-12 but is often written as a number
+  if (domain.revision !== undefined) {
+    domain.revision = String(domain.revision) as TypedDataRevision;
+  }
+
+  const networkChainId = chainIdName(await getProvider(network).getChainId());
+  if (domain.chainId === undefined || domain.chainId === '') {
+    domain.chainId = networkChainId;
+  } else {
+    const given = num.isHex(String(domain.chainId)) ? chainIdName(String(domain.chainId)) : String(domain.chainId);
+    if (given !== networkChainId) {
+      throw new Error(`Typed data domain is for chain ${given}, but network ${network} is ${networkChainId}`);
+    }
+  }
+
+  const prepared = { ...typedData, domain };
+  if (!typedDataUtils.validateTypedData(prepared)) {
+    throw new Error(
+      'Typed data is not valid SNIP-12: revision 1 needs a StarknetDomain type and domain.revision "1", revision 0 a StarkNetDomain type'
+    );
+  }
+
+  const revision = domain.revision === TypedDataRevision.ACTIVE ? TypedDataRevision.ACTIVE : TypedDataRevision.LEGACY;
+  return { typedData: prepared, revision, chainId: networkChainId };
+}
+
+/**
+ * Compute the SNIP-12 message hash of typed data for an account
+ * @param typedData SNIP-12 typed data (revision 0 or 1)
+ * @param accountAddress Address of the signing account, or Starknet ID
+ * @param network Network name (mainnet, sepolia)
+ * @returns The message hash
+ */
+export async function hashTypedData(typedData: TypedData, accountAddress: string, network = 'mainnet'): Promise<string> {
+  const { typedData: prepared } = await prepareTypedData(typedData, network);
+  const address = parseStarknetAddress(await utils.resolveNameOrAddress(accountAddress, network));
+  return typedDataUtils.getMessageHash(prepared, address);
+}
+
+/**
+ * Sign SNIP-12 typed data with a configured account
+ * The message hash is computed against the network's chain ID, e.g. for login-with-Starknet
+ * challenges or off-chain orders. Only the account's signer is used; nothing is sent.
+ * SNIP-9 outside executions are refused: anyone could submit their calls, so they are only
+ * signed by buildOutsideExecution, which checks them against the guardrails.
+ * @param params Account alias and typed data (revision 0 or 1)
+ * @param network Network name (mainnet, sepolia)
+ * @returns The signer, message hash and signature
+ * @throws PolicyViolationError if the typed data is an outside execution
+ */
+export async function signTypedData(
+  params: { account: string; typedData: TypedData },
+  network = 'mainnet'
+): Promise<SignedTypedData> {
+  if (params.typedData?.types && params.typedData.primaryType && isOutsideExecution(params.typedData)) {
+    throw new PolicyViolationError(
+      'outside_execution_typed_data',
+      'Typed data is a SNIP-9 outside execution, which authorizes calls of the account; use build_starknet_outside_execution so they are checked against the guardrails',
+      { primaryType: params.typedData.primaryType, domain: params.typedData.domain?.name ?? null }
+    );
+  }
+
+  const { typedData, revision, chainId } = await prepareTypedData(params.typedData, network);
+  const account = getAccount({ account: params.account }, network);
+  const messageHash = typedDataUtils.getMessageHash(typedData, account.address);
+  const signature = await account.signMessage(typedData);
+
+  return {
+    signer: account.address,
+    revision,
+    chainId,
+    messageHash,
+    signature: CallData.compile(Array.isArray(signature) ? signature : [signature.r, signature.s]).map(felt => num.toHex(felt))
+  };
+}
+
+/**
+ * Verify a signature by asking the account contract whether it is valid
+ * The account's own is_valid_signature decides, so this works for any wallet type
+ * (OpenZeppelin, Argent, Braavos, multisigs, guardians). The account must be deployed.
+ * @param params Account address or Starknet ID, signature, and the typed data or message hash signed
+ * @param network Network name (mainnet, sepolia)
+ * @returns Whether the signature is valid, with the account's raw answer
+ */
+export async function verifySignature(
+  params: { address: string; signature: string[]; typedData?: TypedData; messageHash?: string },
+  network = 'mainnet'
+): Promise<SignatureVerification> {
+  const address = parseStarknetAddress(await utils.resolveNameOrAddress(params.address, network));
+
+  let messageHash: string;
+  if (params.typedData) {
+    const { typedData } = await prepareTypedData(params.typedData, network);
+    messageHash = typedDataUtils.getMessageHash(typedData, address);
+  } else if (params.messageHash) {
+    messageHash = num.toHex(params.messageHash);
+  } else {
+    throw new Error('Either typedData or messageHash is required');
+  }
+
+  if (params.signature.length === 0) {
+    throw new Error('Signature is empty');
+  }
+
+  const provider = getProvider(network);
+  const calldata = CallData.compile({ hash: messageHash, signature: params.signature });
+  let lastError: Error | null = null;
+
+  for (const entrypoint of SIGNATURE_ENTRYPOINTS) {
+    try {
+      const response = (await provider.callContract({ contractAddress: address, entrypoint, calldata })).map(felt => num.toHex(felt));
+      const valid = response.length > 0 && num.toBigInt(response[0]) !== BigInt(0);
+      return {
+        valid,
+        address,
+        messageHash,
+        entrypoint,
+        response,
+        ...(!valid && { reason: 'The account returned 0 for this signature' })
+      };
+    } catch (error) {
+      const message = (error as Error).message ?? '';
+      const rejection = INVALID_SIGNATURE_ERRORS.find(text => message.includes(text));
+      if (rejection) {
+        return { valid: false, address, messageHash, entrypoint, response: null, reason: rejection };
+      }
+      lastError = error as Error;
+      // Try the next entrypoint only when this one does not exist
+      if (!/entry ?point|not found/i.test(message)) break;
+    }
+  }
+
+  throw new Error(`Could not verify the signature with account ${address}: ${lastError?.message ?? 'no validation entrypoint'}`);
+}
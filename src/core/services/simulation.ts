@@ -0,0 +1,224 @@
+import {
+  TransactionType,
+  num,
+  type AccountInterface,
+  type AllowArray,
+  type Call,
+  type DeclareContractPayload,
+  type Invocations,
+  type SimulateTransactionDetails
+} from 'starknet';
+import { getConfig } from '../config.js';
+import { getProvider } from './clients.js';
+import { decodeTransferEvent, formatAmount } from './tokenlist.js';
+
+// Environment variable that makes write tools simulate unless told otherwise
+export const DRY_RUN_ENV = 'STARKNET_MCP_DRY_RUN';
+
+/**
+ * An event emitted during a simulated transaction
+ */
+export interface SimulatedEvent {
+  fromAddress: string;
+  keys: string[];
+  data: string[];
+}
+
+/**
+ * Net token balance change of an address in a simulated transaction
+ */
+export interface BalanceChange {
+  token: string;
+  address: string;
+  change: string; // Signed amount in the token's smallest unit
+  formatted: string | null; // Signed human-readable amount, if the token's decimals are known
+}
+
+/**
+ * Outcome of a transaction simulated without broadcasting it
+ */
+export interface SimulationReport {
+  dryRun: true;
+  succeeded: boolean;
+  revertReason: string | null;
+  fee: {
+    overallFee: string;
+    suggestedMaxFee: string;
+    unit: string;
+    formatted: string;
+  } | null;
+  events: SimulatedEvent[];
+  balanceChanges: BalanceChange[];
+}
+
+/**
+ * Whether write tools simulate by default when no dryRun argument is given
+ * Enabled by STARKNET_MCP_DRY_RUN=true or `dryRun: true` in the config file.
+ */
+export function isDryRunDefault(): boolean {
+  const env = process.env[DRY_RUN_ENV];
+  if (env !== undefined) {
+    return env === 'true';
+  }
+  return getConfig().dryRun === true;
+}
+
+/**
+ * Collect the events of a function invocation and its nested calls, in execution order
+ */
+function collectEvents(invocation: any, events: SimulatedEvent[] = []): SimulatedEvent[] {
+  if (!invocation) return events;
+
+  const ordered = [...(invocation.events ?? [])].sort((a: any, b: any) => a.order - b.order);
+  for (const entry of ordered) {
+    // RPC 0.6 nests the event content, RPC 0.7 flattens it
+    const content = entry.event ?? entry;
+    events.push({
+      fromAddress: invocation.contract_address,
+      keys: content.keys ?? [],
+      data: content.data ?? []
+    });
+  }
+
+  for (const call of invocation.calls ?? []) {
+    collectEvents(call, events);
+  }
+
+  return events;
+}
+
+/**
+ * Sum the Transfer events of a simulation into net balance changes per token and address
+ * @param events Simulated events
+ * @param network Network name, used to look up token decimals
+ * @returns Non-zero balance changes
+ */
+async function computeBalanceChanges(events: SimulatedEvent[], network: string): Promise<BalanceChange[]> {
+  const deltas = new Map<string, { token: string; address: string; change: bigint }>();
+
+  const addDelta = (token: string, address: string, change: bigint) => {
+    const key = `${token}:${address}`;
+    const entry = deltas.get(key) ?? { token, address, change: BigInt(0) };
+    entry.change += change;
+    deltas.set(key, entry);
+  };
+
+  for (const event of events) {
+    // ERC20 transfers only: ERC721 transfers move token IDs, not amounts
+    const transfer = decodeTransferEvent(event);
+    if (!transfer || transfer.standard === 'ERC721') continue;
+
+    const token = num.toHex(event.fromAddress);
+    addDelta(token, num.toHex(transfer.from), -transfer.value);
+    addDelta(token, num.toHex(transfer.to), transfer.value);
+  }
+
+  const provider = getProvider(network);
+  const decimalsByToken = new Map<string, number | null>();
+
+  for (const { token } of deltas.values()) {
+    if (decimalsByToken.has(token)) continue;
+    try {
+      const [decimals] = await provider.callContract({ contractAddress: token, entrypoint: 'decimals' }, 'latest');
+      decimalsByToken.set(token, Number(num.toBigInt(decimals)));
+    } catch {
+      decimalsByToken.set(token, null);
+    }
+  }
+
+  return Array.from(deltas.values())
+    .filter(({ change }) => change !== BigInt(0))
+    .map(({ token, address, change }) => {
+      const decimals = decimalsByToken.get(token);
+      return {
+        token,
+        address,
+        change: change.toString(),
+        formatted: decimals === null || decimals === undefined ? null : formatAmount(change, decimals, { trimZeros: true })
+      };
+    });
+}
+
+/**
+ * Simulate a transaction and summarize its trace
+ */
+async function simulateTransaction(
+  account: AccountInterface,
+  transaction: Invocations[number],
+  network: string,
+  details: SimulateTransactionDetails
+): Promise<SimulationReport> {
+  let simulation;
+  try {
+    [simulation] = await account.simulateTransaction([transaction], details);
+  } catch (error) {
+    // Validation and execution failures surface as RPC errors rather than reverted traces
+    return {
+      dryRun: true,
+      succeeded: false,
+      revertReason: (error as Error).message,
+      fee: null,
+      events: [],
+      balanceChanges: []
+    };
+  }
+
+  const trace = simulation.transaction_trace as any;
+  const executeInvocation = trace.execute_invocation;
+  const revertReason: string | null = executeInvocation?.revert_reason ?? null;
+
+  // A reverted transaction still pays its fee, so fee transfer events are always included
+  const events = collectEvents(revertReason ? null : executeInvocation);
+  collectEvents(trace.fee_transfer_invocation, events);
+
+  const feeEstimation = simulation.fee_estimation as any;
+  const unit = feeEstimation.unit ?? 'WEI';
+
+  return {
+    dryRun: true,
+    succeeded: revertReason === null,
+    revertReason,
+    fee: {
+      overallFee: num.toBigInt(feeEstimation.overall_fee).toString(),
+      suggestedMaxFee: simulation.suggestedMaxFee.toString(),
+      unit,
+      formatted: `${formatAmount(num.toBigInt(feeEstimation.overall_fee), 18, { trimZeros: true })} ${unit === 'FRI' ? 'STRK' : 'ETH'}`
+    },
+    events,
+    balanceChanges: await computeBalanceChanges(events, network)
+  };
+}
+
+/**
+ * Simulate an invoke transaction without broadcasting it
+ * @param account The signing account
+ * @param calls The call or calls to execute
+ * @param network Network name (mainnet, sepolia)
+ * @param details Simulation details, e.g. the transaction version deciding the fee unit
+ * @returns Expected fee, emitted events, balance changes and revert reason
+ */
+export async function simulateCalls(
+  account: AccountInterface,
+  calls: AllowArray<Call>,
+  network = 'mainnet',
+  details: SimulateTransactionDetails = {}
+): Promise<SimulationReport> {
+  return simulateTransaction(account, { type: TransactionType.INVOKE, payload: calls }, network, details);
+}
+
+/**
+ * Simulate a declare transaction without broadcasting it
+ * @param account The signing account
+ * @param payload The Sierra class and its CASM
+ * @param network Network name (mainnet, sepolia)
+ * @param details Simulation details, e.g. the transaction version deciding the fee unit
+ * @returns Expected fee and the fee transfer, or the reason the declaration would fail
+ */
+export async function simulateDeclare(
+  account: AccountInterface,
+  payload: DeclareContractPayload,
+  network = 'mainnet',
+  details: SimulateTransactionDetails = {}
+): Promise<SimulationReport> {
+  return simulateTransaction(account, { type: TransactionType.DECLARE, payload }, network, details);
+}
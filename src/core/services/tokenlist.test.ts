@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'bun:test';
+import { num } from 'starknet';
+import { decodeTransferEvent, TRANSFER_SELECTOR } from './tokenlist.js';
+
+const selector = num.toHex(TRANSFER_SELECTOR);
+
+describe('decodeTransferEvent', () => {
+  test('each Transfer layout is decoded', () => {
+    expect(decodeTransferEvent({ keys: [selector, '0x1', '0x2'], data: ['0x5', '0x1'] }))
+      .toEqual({ from: '0x1', to: '0x2', value: BigInt(5) + (BigInt(1) << BigInt(128)), standard: 'ERC20' });
+    expect(decodeTransferEvent({ keys: [selector, '0x1', '0x2', '0x7', '0x0'], data: [] }))
+      .toEqual({ from: '0x1', to: '0x2', value: BigInt(7), standard: 'ERC721' });
+    expect(decodeTransferEvent({ keys: [selector], data: ['0x1', '0x2', '0x9', '0x0'] }))
+      .toEqual({ from: '0x1', to: '0x2', value: BigInt(9), standard: null });
+  });
+
+  test('other events are ignored', () => {
+    expect(decodeTransferEvent({ keys: ['0x1234', '0x1', '0x2'], data: ['0x5', '0x0'] })).toBeNull();
+    expect(decodeTransferEvent({ keys: [selector, '0x1'], data: ['0x5'] })).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { hash, num } from 'starknet';
+import type { FeeToken } from './fees.js';
+
+/**
+ * Sender, recipient and value of a Transfer event
+ */
+export interface TransferEventLayout {
+  from: string;
+  to: string;
+  value: bigint; // Amount of an ERC20 transfer, token ID of an ERC721 one
+  standard: 'ERC20' | 'ERC721' | null; // Null for the Cairo 0 layout, shared by both standards
+}
+
+/**
+ * A token of the bundled token list
+ */
+export interface ListedToken {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+// Fee token contract addresses (same for all networks)
+export const TOKEN_ADDRESSES: Record<FeeToken, string> = {
+  ETH: '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7',
+  STRK: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d'
+};
+
+// Fee token decimals
+export const TOKEN_DECIMALS: Record<FeeToken, number> = {
+  ETH: 18,
+  STRK: 18
+};
+
+// Well-known tokens, per network
+export const TOKEN_LIST: Record<string, ListedToken[]> = {
+  mainnet: [
+    { symbol: 'ETH', address: TOKEN_ADDRESSES.ETH, decimals: TOKEN_DECIMALS.ETH },
+    { symbol: 'STRK', address: TOKEN_ADDRESSES.STRK, decimals: TOKEN_DECIMALS.STRK },
+    { symbol: 'USDC', address: '0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8', decimals: 6 },
+    { symbol: 'USDT', address: '0x068f5c6a61780768455de69077e07e89787839bf8166decfbf92b645209c0fb8', decimals: 6 },
+    { symbol: 'DAI', address: '0x05574eb6b8789a91466f902c380d978e472db68170ff82a5b650b95a58ddf4ad', decimals: 18 },
+    { symbol: 'WBTC', address: '0x03fe2b97c1fd336e750087d68b9b867997fd64a2661ff3ca5a7c771641e8e7ac', decimals: 8 },
+    { symbol: 'wstETH', address: '0x042b8f0484674ca266ac5d08e4ac6a3fe65bd3129795def2dca5c34ecc5f96d2', decimals: 18 },
+    { symbol: 'rETH', address: '0x0319111a5037cbec2b3e638cc34a3474e2d2608299f3e62866e9cc683208c610', decimals: 18 },
+    { symbol: 'LORDS', address: '0x0124aeb495b947201f5fac96fd1138e326ad86195b98df6dec9009158a533b49', decimals: 18 },
+    { symbol: 'EKUBO', address: '0x075afe6402ad5a5c20dd25e10ec3b3986acaa647b77e4ae24b0cbc9a54a27a87', decimals: 18 },
+    { symbol: 'UNI', address: '0x049210ffc442172463f3177147c1aeaa36c51d152c1b0630f2364c300d4f48ee', decimals: 18 },
+    { symbol: 'ZEND', address: '0x00585c32b625999e6e5e78645ff8df7a9001cf5cf3eb6b80ccdd16cb64bd3a34', decimals: 18 },
+    { symbol: 'xSTRK', address: '0x028d709c875c0ceac3dce7065bec5328186dc89fe254527084d1689910954b0a', decimals: 18 }
+  ],
+  sepolia: [
+    { symbol: 'ETH', address: TOKEN_ADDRESSES.ETH, decimals: TOKEN_DECIMALS.ETH },
+    { symbol: 'STRK', address: TOKEN_ADDRESSES.STRK, decimals: TOKEN_DECIMALS.STRK }
+  ]
+};
+
+// Transfer event key shared by ERC20 and ERC721
+export const TRANSFER_SELECTOR = num.toBigInt(hash.getSelectorFromName('Transfer'));
+
+// Allowances at or above the largest u128 are unlimited (no token has such a supply); some
+// wallets approve exactly that instead of the largest u256
+export const UNLIMITED_ALLOWANCE = BigInt(2) ** BigInt(128) - BigInt(1);
+
+/**
+ * Format a token amount according to its decimals
+ * @param amount The raw amount, possibly negative
+ * @param decimals The number of decimals
+ * @param options Whether to drop trailing zeros of the fractional part (and the point if none are left)
+ * @returns Formatted amount as string
+ */
+export function formatAmount(amount: bigint, decimals: number, options: { trimZeros?: boolean } = {}): string {
+  if (amount < BigInt(0)) return `-${formatAmount(-amount, decimals, options)}`;
+  if (decimals === 0) return amount.toString();
+
+  const amountStr = amount.toString().padStart(decimals + 1, '0');
+  const fractionalPart = options.trimZeros ? amountStr.slice(-decimals).replace(/0+$/, '') : amountStr.slice(-decimals);
+  return `${amountStr.slice(0, -decimals)}${fractionalPart ? `.${fractionalPart}` : ''}`;
+}
+
+/**
+ * Read a u256 (low and high felts) or a felt amount, as returned by a token
+ * The limbs are not range-checked, so events of non-standard tokens still decode.
+ * @param result The felts holding the amount
+ * @returns The amount
+ */
+export function readU256(result: string[]): bigint {
+  return result.length >= 2
+    ? num.toBigInt(result[0]) + (num.toBigInt(result[1]) << BigInt(128))
+    : num.toBigInt(result[0] ?? 0);
+}
+
+/**
+ * Decode a Transfer event
+ * Cairo 1 ERC20 transfers key the sender and recipient, ERC721 transfers also key the token ID;
+ * Cairo 0 tokens put everything in the data, where ERC20 and ERC721 share a layout.
+ * @param event Event keys and data
+ * @returns The sender, recipient and value, or null for other events
+ */
+export function decodeTransferEvent(event: { keys: string[]; data: string[] }): TransferEventLayout | null {
+  const { keys, data } = event;
+  if (keys.length === 0 || num.toBigInt(keys[0]) !== TRANSFER_SELECTOR) return null;
+
+  if (keys.length === 3 && data.length === 2) {
+    return { from: keys[1], to: keys[2], value: readU256(data), standard: 'ERC20' };
+  }
+  if (keys.length === 5 && data.length === 0) {
+    return { from: keys[1], to: keys[2], value: readU256(keys.slice(3)), standard: 'ERC721' };
+  }
+  if (keys.length === 1 && data.length === 4) {
+    return { from: data[0], to: data[1], value: readU256(data.slice(2)), standard: null };
+  }
+  return null;
+}
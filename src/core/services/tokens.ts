@@ -1,22 +1,7 @@
 import { getProvider, parseStarknetAddress } from './clients.js';
 import { uint256, shortString } from 'starknet';
 import { getContract } from './clients.js';
-
-/**
- * Format a token amount according to its decimals
- * @param amount The raw amount as bigint
- * @param decimals The number of decimals
- * @returns Formatted amount as string
- */
-function formatTokenAmount(amount: bigint, decimals: number): string {
-  if (decimals === 0) return amount.toString();
-  
-  const amountStr = amount.toString().padStart(decimals + 1, '0');
-  const integerPart = amountStr.slice(0, -decimals) || '0';
-  const fractionalPart = amountStr.slice(-decimals);
-  
-  return `${integerPart}.${fractionalPart}`;
-}
+import { formatAmount } from './tokenlist.js';
 
 /**
  * Get basic information about an ERC20 token
@@ -137,6 +122,6 @@ export async function getTokenTotalSupply(
   
   return {
     raw: supply,
-    formatted: formatTokenAmount(supply, decimals)
+    formatted: formatAmount(supply, decimals)
   };
 }
\ No newline at end of file
@@ -0,0 +1,230 @@
+import { byteArray, num, type Abi } from 'starknet';
+import { getProvider, parseStarknetAddress } from './clients.js';
+import { getAbiForClassHash } from './abis.js';
+import { decodeCalldata, decodeEvents, getAbiEntryBySelector, type DecodedEvent } from './calldata.js';
+
+/**
+ * A revert reason made readable
+ */
+export interface RevertReason {
+  message: string; // Decoded panic message, e.g. "u256_sub Overflow"
+  panicData: string[]; // Panic felts found in the reason
+  contracts: string[]; // Contracts of the failing call stack, outermost first
+  raw: string;
+}
+
+/**
+ * An event emitted in a call frame; raw keys and data are kept only when it could not be decoded
+ */
+export interface TraceEvent {
+  name: string | null;
+  type: string | null;
+  fields: Record<string, unknown> | null;
+  keys?: string[];
+  data?: string[];
+}
+
+/**
+ * A function invocation of a trace, with its nested calls
+ */
+export interface CallFrame {
+  contractAddress: string;
+  classHash: string;
+  callerAddress: string;
+  selector: string;
+  entrypoint: string | null; // Null when the class ABI has no entrypoint with this selector
+  entryPointType: string;
+  callType: string;
+  args: Record<string, unknown> | null;
+  calldata: string[];
+  result: string[];
+  reverted: boolean;
+  events: TraceEvent[];
+  calls: CallFrame[];
+}
+
+/**
+ * Execution trace of a transaction
+ */
+export interface TransactionTraceSummary {
+  hash: string;
+  type: string;
+  reverted: boolean;
+  revertReason: RevertReason | null;
+  validate: CallFrame | null;
+  execute: CallFrame | null; // __execute__, constructor or L1 handler invocation
+  feeTransfer: CallFrame | null;
+}
+
+// First felt of a panic carrying a ByteArray message (panic!("...") in Cairo >= 2.7)
+const BYTE_ARRAY_PANIC_MAGIC = BigInt('0x46a6158a16a947e5916b2a2ca68501a45e93d7110e81aa2d6438b1c57c879a3');
+
+// Panic added by every contract a failing call returns through
+const ENTRYPOINT_FAILED = 'ENTRYPOINT_FAILED';
+
+/**
+ * Decode a felt as a short string
+ * @returns The text, or null if the felt is not printable ASCII
+ */
+function feltToText(felt: string): string | null {
+  let hex = num.toBigInt(felt).toString(16);
+  if (hex === '0') return null;
+  if (hex.length % 2) hex = `0${hex}`;
+
+  const bytes = hex.match(/../g)!.map(byte => parseInt(byte, 16));
+  return bytes.every(byte => byte >= 0x20 && byte <= 0x7e) ? String.fromCharCode(...bytes) : null;
+}
+
+/**
+ * Decode panic felts into messages: a ByteArray panic as one string, otherwise each felt as a
+ * short string when it is printable, or as hex
+ */
+function decodePanicData(felts: string[]): string[] {
+  if (felts.length >= 4 && num.toBigInt(felts[0]) === BYTE_ARRAY_PANIC_MAGIC) {
+    const dataLength = Number(num.toBigInt(felts[1]));
+    if (felts.length >= dataLength + 4) {
+      const message = byteArray.stringFromByteArray({
+        data: felts.slice(2, 2 + dataLength),
+        pending_word: felts[2 + dataLength],
+        pending_word_len: Number(num.toBigInt(felts[3 + dataLength]))
+      });
+      return [message, ...decodePanicData(felts.slice(4 + dataLength))];
+    }
+  }
+
+  return felts.map(felt => feltToText(felt) ?? num.toHex(felt));
+}
+
+/**
+ * Make a revert reason readable
+ * Nodes report reverts as text with the failing call stack and the panic data as felts
+ * ("Failure reason: 0x753235365f737562204f766572666c6f77"), sometimes already decoded, and
+ * Cairo 0 contracts as "Error message:" lines. Panic felts are decoded to strings and the
+ * ENTRYPOINT_FAILED markers added by each caller are left out of the message.
+ * @param raw The revert_reason reported by the node
+ * @returns The decoded reason
+ */
+export function decodeRevertReason(raw: string): RevertReason {
+  const contracts = Array.from(
+    raw.matchAll(/(?:Error in the called contract \(|contract address: )(0x[0-9a-fA-F]+)/g),
+    match => num.toHex(match[1])
+  ).filter((address, index, all) => all.indexOf(address) === index);
+
+  // Panic data: the felts of every "Failure reason" section, skipping already decoded text
+  const panicData = Array.from(raw.matchAll(/Failure reason:\s*([^\n]*)/g))
+    .flatMap(match => match[1].replace(/'[^']*'|"[^"]*"/g, '').match(/0x[0-9a-fA-F]+/g) ?? []);
+
+  let messages = decodePanicData(panicData).filter(message => message !== ENTRYPOINT_FAILED);
+  if (messages.length === 0 && panicData.length > 0) {
+    messages = [ENTRYPOINT_FAILED];
+  }
+
+  // Cairo 0 contracts report assert messages as "Error message: ..."
+  if (messages.length === 0) {
+    messages = Array.from(raw.matchAll(/Error message:\s*([^\n]*)/g), match => match[1].trim());
+  }
+  if (messages.length === 0) {
+    messages = [raw.split('\n').map(line => line.trim()).filter(Boolean).pop() ?? raw];
+  }
+
+  return {
+    message: messages.filter((message, index) => messages.indexOf(message) === index).join(', '),
+    panicData: panicData.map(felt => num.toHex(felt)),
+    contracts,
+    raw
+  };
+}
+
+/**
+ * Render a function invocation and its nested calls, naming entrypoints and decoding arguments
+ * and events with the ABI of the class each frame executed
+ */
+async function buildCallFrame(invocation: any, abis: Map<string, Abi | null>, network: string): Promise<CallFrame> {
+  const classHash = num.toHex(invocation.class_hash);
+  if (!abis.has(classHash)) {
+    try {
+      abis.set(classHash, await getAbiForClassHash(classHash, getProvider(network)));
+    } catch {
+      abis.set(classHash, null);
+    }
+  }
+  const abi = abis.get(classHash);
+
+  const entry = abi ? getAbiEntryBySelector(abi, invocation.entry_point_selector) : undefined;
+  let args: Record<string, unknown> | null = null;
+  if (abi && entry) {
+    try {
+      args = decodeCalldata(abi, entry.type === 'constructor' ? 'constructor' : entry.name, invocation.calldata ?? []);
+    } catch {
+      // Left undecoded, the raw calldata is still reported
+    }
+  }
+
+  // RPC 0.6 nests the event content, RPC 0.7 flattens it
+  const rawEvents = [...(invocation.events ?? [])]
+    .sort((a: any, b: any) => a.order - b.order)
+    .map((event: any) => ({ keys: (event.event ?? event).keys ?? [], data: (event.event ?? event).data ?? [] }));
+  const decodedEvents: Array<DecodedEvent | null> = abi ? decodeEvents(abi, rawEvents) : rawEvents.map(() => null);
+
+  const calls: CallFrame[] = [];
+  for (const call of invocation.calls ?? []) {
+    calls.push(await buildCallFrame(call, abis, network));
+  }
+
+  return {
+    contractAddress: num.toHex(invocation.contract_address),
+    classHash,
+    callerAddress: num.toHex(invocation.caller_address),
+    selector: num.toHex(invocation.entry_point_selector),
+    entrypoint: entry?.name ?? null,
+    entryPointType: invocation.entry_point_type,
+    callType: invocation.call_type,
+    args,
+    calldata: invocation.calldata ?? [],
+    result: invocation.result ?? [],
+    reverted: invocation.is_reverted ?? false,
+    events: rawEvents.map((event, index) => {
+      const decoded = decodedEvents[index];
+      return decoded
+        ? { name: decoded.name, type: decoded.type, fields: decoded.fields }
+        : { name: null, type: null, fields: null, keys: event.keys, data: event.data };
+    }),
+    calls
+  };
+}
+
+/**
+ * Get the execution trace of a transaction as a call tree with a readable revert reason
+ * Frames are decoded with the class they executed, so calls into contracts upgraded since
+ * are still named correctly.
+ * @param txHash Transaction hash
+ * @param network Network name (mainnet, sepolia)
+ * @returns The validate, execute and fee transfer call trees and the revert reason, if any
+ */
+export async function traceTransaction(txHash: string, network = 'mainnet'): Promise<TransactionTraceSummary> {
+  const formattedTxHash = parseStarknetAddress(txHash);
+  const trace: any = await getProvider(network).getTransactionTrace(formattedTxHash);
+  const abis = new Map<string, Abi | null>();
+
+  // A reverted execution is reported as its revert reason alone (RPC 0.7)
+  const execution = trace.execute_invocation ?? trace.constructor_invocation ?? trace.function_invocation ?? null;
+  const revertedExecution = !!execution && !('contract_address' in execution);
+  const execute = execution && !revertedExecution ? await buildCallFrame(execution, abis, network) : null;
+
+  let rawReason: string | null = revertedExecution ? execution.revert_reason ?? '' : null;
+  if (rawReason === null && execute?.reverted) {
+    // Traces that flag reverted frames leave the reason to the receipt
+    const receipt: any = await getProvider(network).getTransactionReceipt(formattedTxHash);
+    rawReason = receipt.revert_reason ?? '';
+  }
+
+  return {
+    hash: formattedTxHash,
+    type: trace.type,
+    reverted: rawReason !== null,
+    revertReason: rawReason !== null ? decodeRevertReason(rawReason) : null,
+    validate: trace.validate_invocation ? await buildCallFrame(trace.validate_invocation, abis, network) : null,
+    execute,
+    feeTransfer: trace.fee_transfer_invocation ? await buildCallFrame(trace.fee_transfer_invocation, abis, network) : null
+  };
+}
@@ -1,4 +1,5 @@
 import { getProvider, parseStarknetAddress } from './clients.js';
+import { decodeRevertReason } from './trace.js';
 import { 
   type GetTransactionReceiptResponse, 
   type GetTransactionResponse,
@@ -78,7 +79,9 @@ export async function getTransactionStatus(
   finality: string;
   blockNumber?: number;
   executionStatus?: string;
+  revertReason?: string; // Decoded reason, for reverted transactions
   isSuccessful: boolean;
+  error?: string; // Why the status could not be fetched
 }> {
   try {
     const receipt = await getTransactionReceipt(txHash, network);
@@ -95,6 +98,9 @@ export async function getTransactionStatus(
       finality: typedReceipt.finality_status || 'UNKNOWN',
       blockNumber: typedReceipt.block_number,
       executionStatus: typedReceipt.execution_status,
+      ...(typedReceipt.execution_status === 'REVERTED' && {
+        revertReason: decodeRevertReason(typedReceipt.revert_reason ?? '').message
+      }),
       isSuccessful: 
         typedReceipt.execution_status === 'SUCCEEDED' && 
         (typedReceipt.finality_status === TransactionFinalityStatus.ACCEPTED_ON_L1 || 
@@ -106,7 +112,8 @@ export async function getTransactionStatus(
       hash: txHash,
       status: 'UNKNOWN',
       finality: 'UNKNOWN',
-      isSuccessful: false
+      isSuccessful: false,
+      error: (error as Error).message
     };
   }
 }
\ No newline at end of file
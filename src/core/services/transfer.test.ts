@@ -0,0 +1,226 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { uint256 } from 'starknet';
+
+const ETH = '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7';
+const RECIPIENT = '0x0456';
+const DENIED = '0x0bad';
+
+// Guardrails are read from the config file once, so it is written before the services load
+const dir = mkdtempSync(join(tmpdir(), 'starknet-mcp-transfer-'));
+const stateFile = join(dir, 'spending.json');
+writeFileSync(join(dir, 'config.json'), JSON.stringify({
+  guardrails: {
+    limits: [{ token: 'ETH', perTransaction: '1', daily: '1.5' }],
+    recipients: { deny: [DENIED] }
+  }
+}));
+process.env.STARKNET_MCP_CONFIG = join(dir, 'config.json');
+process.env.STARKNET_MCP_SPEND_STATE = stateFile;
+
+const { approveToken, executeContract, executeMulticall, parseTokenAmount, prepareCalls } = await import('./transfer.js');
+const { PolicyViolationError } = await import('./guardrails.js');
+const { buildOutsideExecution } = await import('./outsideexecution.js');
+const { registerPaymaster } = await import('./paymaster.js');
+
+const signer = { privateKey: '0x1', accountAddress: '0x0123' };
+
+/**
+ * Encode an ETH amount as the u256 calldata of a token call
+ */
+function eth(amount: string): string[] {
+  const { low, high } = uint256.bnToUint256(parseTokenAmount(amount, 18));
+  return [low.toString(), high.toString()];
+}
+
+/**
+ * Wait for a promise that must be rejected by the guardrails
+ */
+async function rejection(promise: Promise<unknown>): Promise<InstanceType<typeof PolicyViolationError>> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(PolicyViolationError);
+    return error as InstanceType<typeof PolicyViolationError>;
+  }
+  throw new Error('Expected a policy violation');
+}
+
+describe('guardrails on the execute path', () => {
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('a transfer above the per-transaction limit is refused', async () => {
+    const error = await rejection(executeContract({
+      ...signer,
+      contractAddress: ETH,
+      entrypoint: 'transfer',
+      calldata: [RECIPIENT, ...eth('2')],
+      dryRun: true
+    }, 'sepolia'));
+    expect(error.rule).toBe('per_transaction_limit');
+  });
+
+  test('an approval above the per-transaction limit is refused', async () => {
+    const error = await rejection(executeContract({
+      ...signer,
+      contractAddress: ETH,
+      entrypoint: 'approve',
+      calldata: [RECIPIENT, ...eth('5')],
+      dryRun: true
+    }, 'sepolia'));
+    expect(error.rule).toBe('per_transaction_limit');
+  });
+
+  test('transfer_from is limited by the recipient and amount in its calldata', async () => {
+    const error = await rejection(executeContract({
+      ...signer,
+      contractAddress: ETH,
+      entrypoint: 'transfer_from',
+      calldata: ['0x0789', DENIED, ...eth('0.1')],
+      dryRun: true
+    }, 'sepolia'));
+    expect(error.rule).toBe('recipient_denied');
+  });
+
+  test('token calls with calldata that cannot be decoded are refused', async () => {
+    const error = await rejection(executeContract({
+      ...signer,
+      contractAddress: ETH,
+      entrypoint: 'transfer',
+      calldata: [RECIPIENT, '1000'],
+      dryRun: true
+    }, 'sepolia'));
+    expect(error.rule).toBe('undecodable_token_call');
+  });
+
+  test('transfers through the execute path count against the daily limit', async () => {
+    const call = { contractAddress: ETH, entrypoint: 'transfer', calldata: [RECIPIENT, ...eth('0.8')] };
+    // A separate account, so the spends recorded here do not affect the other tests
+    const signerInfo = { address: '0x0124' };
+
+    const first = await prepareCalls([call], 'sepolia', signerInfo);
+    expect(first.reservation).not.toBeNull();
+    first.reservation!.confirm('0x1234');
+
+    const error = await rejection(prepareCalls([call], 'sepolia', signerInfo));
+    expect(error.rule).toBe('daily_limit');
+  });
+
+  test('calls that move no tokens are not tracked', async () => {
+    const { calls, reservation } = await prepareCalls(
+      [{ contractAddress: ETH, entrypoint: 'balance_of', calldata: [RECIPIENT] }],
+      'sepolia',
+      { address: signer.accountAddress }
+    );
+    expect(calls).toHaveLength(1);
+    expect(reservation).toBeNull();
+  });
+
+  test('the transfers of a multicall are added up against the per-transaction limit', async () => {
+    const error = await rejection(executeMulticall({
+      ...signer,
+      calls: [
+        { contractAddress: ETH, entrypoint: 'transfer', calldata: [RECIPIENT, ...eth('0.6')] },
+        { contractAddress: ETH, entrypoint: 'transfer', calldata: ['0x0789', ...eth('0.6')] }
+      ],
+      dryRun: true
+    }, 'sepolia'));
+    expect(error.rule).toBe('per_transaction_limit');
+    expect(error.details.transfers).toBe(2);
+  });
+
+  test('a multicall with one denied recipient is rejected without reserving any spend', async () => {
+    const signerInfo = { address: '0x0125' };
+    const error = await rejection(prepareCalls([
+      { contractAddress: ETH, entrypoint: 'transfer', calldata: [RECIPIENT, ...eth('0.5')] },
+      { contractAddress: ETH, entrypoint: 'transfer', calldata: [DENIED, ...eth('0.1')] }
+    ], 'sepolia', signerInfo));
+    expect(error.rule).toBe('recipient_denied');
+
+    // The whole daily allowance is still available
+    const { reservation } = await prepareCalls(
+      [{ contractAddress: ETH, entrypoint: 'transfer', calldata: [RECIPIENT, ...eth('1')] }],
+      'sepolia',
+      signerInfo
+    );
+    expect(reservation).not.toBeNull();
+    reservation!.release();
+  });
+
+  test('a multicall reserves its total against the daily limit', async () => {
+    const signerInfo = { address: '0x0126' };
+    const first = await prepareCalls([
+      { contractAddress: ETH, entrypoint: 'transfer', calldata: [RECIPIENT, ...eth('0.4')] },
+      { contractAddress: ETH, entrypoint: 'approve', calldata: ['0x0789', ...eth('0.4')] }
+    ], 'sepolia', signerInfo);
+    first.reservation!.confirm('0x1234');
+
+    const error = await rejection(prepareCalls(
+      [{ contractAddress: ETH, entrypoint: 'transfer', calldata: [RECIPIENT, ...eth('0.8')] }],
+      'sepolia',
+      signerInfo
+    ));
+    expect(error.rule).toBe('daily_limit');
+    expect(error.details.spentLast24h).toBe('0.8');
+  });
+
+  test('transfers signed as an outside execution are limited like executed ones', async () => {
+    const error = await rejection(buildOutsideExecution({
+      ...signer,
+      calls: [{ contractAddress: ETH, entrypoint: 'transfer', calldata: [RECIPIENT, ...eth('2')] }]
+    }, 'sepolia'));
+    expect(error.rule).toBe('per_transaction_limit');
+  });
+
+  test('the fee charged by a paymaster counts against the limits', async () => {
+    registerPaymaster({
+      name: 'greedy',
+      quote: async () => ({
+        caller: '0x0999',
+        gasToken: ETH,
+        gasTokenAmount: parseTokenAmount('2', 18).toString(),
+        feeCalls: [{ contractAddress: ETH, entrypoint: 'transfer', calldata: ['0x0999', ...eth('2')] }]
+      }),
+      submit: async () => {
+        throw new Error('A rejected quote must not be submitted');
+      }
+    });
+
+    const error = await rejection(executeContract({
+      ...signer,
+      contractAddress: ETH,
+      entrypoint: 'balance_of',
+      calldata: [RECIPIENT],
+      paymaster: 'greedy',
+      gasToken: 'ETH',
+      dryRun: true
+    }, 'sepolia'));
+    expect(error.rule).toBe('per_transaction_limit');
+  });
+
+  test('unlimited approvals of a limited token are refused as such', async () => {
+    const error = await rejection(approveToken({
+      privateKey: signer.privateKey,
+      from: signer.accountAddress,
+      token: 'ETH',
+      decimals: 18,
+      to: RECIPIENT,
+      amount: 'unlimited',
+      dryRun: true
+    }, 'sepolia'));
+    expect(error.rule).toBe('unlimited_approval');
+
+    // The u128 maximum some wallets approve counts as unlimited too
+    const u128Max = uint256.bnToUint256(BigInt(2) ** BigInt(128) - BigInt(1));
+    const executed = await rejection(prepareCalls(
+      [{ contractAddress: ETH, entrypoint: 'approve', calldata: [RECIPIENT, u128Max.low.toString(), u128Max.high.toString()] }],
+      'sepolia',
+      { address: signer.accountAddress }
+    ));
+    expect(executed.rule).toBe('unlimited_approval');
+  });
+});
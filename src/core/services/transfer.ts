@@ -1,32 +1,61 @@
 import { getProvider, getAccount, getContract, parseStarknetAddress } from './clients.js';
-import { CallData, cairo, uint256, constants } from 'starknet';
+import { CallData, cairo, num, uint256, constants, type Call } from 'starknet';
 import { utils } from './utils.js';
+import {
+  checkContractCall,
+  checkTransfer,
+  checkTransfers,
+  getTransferGuardrails,
+  PolicyViolationError,
+  type SpendReservation,
+  type TransferCheck
+} from './guardrails.js';
+import { isDryRunDefault, simulateCalls, type SimulationReport } from './simulation.js';
+import { getDefaultFeeToken, getTransactionVersion, resolveFeeDetails, type FeeOptions, type FeeSummary } from './fees.js';
+import { encodeContractArgs } from './contracts.js';
+import { getAbiFunction, type NamedArgs } from './calldata.js';
+import { waitForTransaction, type WaitOptions, type WaitResult } from './confirmation.js';
+import { submitWithNonce } from './nonces.js';
+import {
+  quotePaymasterCalls,
+  submitWithPaymaster,
+  type PaymasterOptions,
+  type PaymasterReceipt,
+  type QuotedPaymasterCalls
+} from './paymaster.js';
+import { readU256, TOKEN_ADDRESSES, TOKEN_DECIMALS, UNLIMITED_ALLOWANCE } from './tokenlist.js';
 
-// Common token contract addresses (same for all networks)
-const TOKEN_ADDRESSES = {
-  ETH: '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7',
-  STRK: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d'
-};
+// Largest u256, approved for unlimited allowances
+const MAX_UINT256 = BigInt(2) ** BigInt(256) - BigInt(1);
 
-// Default decimals for common tokens
-const TOKEN_DECIMALS = {
-  ETH: 18,
-  STRK: 18
+// Token entrypoints that move or approve the signer's tokens, with the position of the
+// recipient (or spender) and of the u256 amount in their calldata, its length, and whether
+// they approve rather than transfer
+const TOKEN_CALLS: Record<string, { recipient: number; amount: number; length: number; approval?: boolean }> = {
+  transfer: { recipient: 0, amount: 1, length: 3 },
+  transfer_from: { recipient: 1, amount: 2, length: 4 },
+  transferFrom: { recipient: 1, amount: 2, length: 4 },
+  approve: { recipient: 0, amount: 1, length: 3, approval: true },
+  increase_allowance: { recipient: 0, amount: 1, length: 3, approval: true },
+  increaseAllowance: { recipient: 0, amount: 1, length: 3, approval: true }
 };
 
 // Common interface for all transfer operations
-interface TransferResult {
+export interface TransferResult {
   txHash: string;
-  waitForConfirmation: () => Promise<any>;
+  fee: FeeSummary | null; // Null when a paymaster submitted the transaction without reporting its fee
+  paymaster?: PaymasterReceipt;
+  waitForConfirmation: (options?: WaitOptions) => Promise<WaitResult>;
 }
 
 // Common parameters for all transfer operations
-interface TransferBaseParams {
-  privateKey: string;
-  from: string;
+interface TransferBaseParams extends FeeOptions, PaymasterOptions {
+  account?: string; // Alias of a configured account
+  privateKey?: string; // Only with `from`, when raw private keys are allowed
+  from?: string;
   to: string; // Can be an address or a Starknet ID
   amount: string | bigint;
-  maxFee?: string | bigint;
+  dryRun?: boolean; // Simulate without broadcasting; defaults to the server setting
 }
 
 /**
@@ -35,7 +64,7 @@ interface TransferBaseParams {
  * @param decimals The number of decimals for the token
  * @returns The amount in token units as BigInt
  */
-function parseTokenAmount(amount: string | bigint, decimals: number): bigint {
+export function parseTokenAmount(amount: string | bigint, decimals: number): bigint {
   // If amount is already a bigint, assume it's already in token units
   if (typeof amount === 'bigint') {
     return amount;
@@ -68,28 +97,49 @@ function parseTokenAmount(amount: string | bigint, decimals: number): bigint {
 }
 
 /**
- * Prepare a transfer transaction
+ * Prepare a transfer transaction and check it against the guardrails
  * @param params Common transfer parameters
  * @param tokenAddress The token contract address
  * @param decimals The number of decimals for the token
  * @param network Network name
- * @returns Prepared account, transaction, and addresses
+ * @param tokenSymbol Symbol used to match spending limits (ETH, STRK)
+ * @returns Prepared account, transaction, addresses and spend reservation
  */
 async function prepareTransfer(
   params: TransferBaseParams,
   tokenAddress: string,
   decimals: number,
-  network: string
+  network: string,
+  tokenSymbol?: string,
+  options: { unlimitedApproval?: boolean } = {}
 ) {
   // Convert amount to token units, accounting for decimals
-  const amount = parseTokenAmount(params.amount, decimals);
-  const fromAddress = parseStarknetAddress(params.from);
+  const amount = options.unlimitedApproval ? MAX_UINT256 : parseTokenAmount(params.amount, decimals);
+  
+  // Create account instance from the account alias or private key
+  const account = getAccount({
+    account: params.account,
+    privateKey: params.privateKey,
+    address: params.from
+  }, network);
+  const fromAddress = account.address;
   
   // Resolve the 'to' parameter which could be either an address or a Starknet ID
   const toAddress = parseStarknetAddress(await utils.resolveNameOrAddress(params.to, network));
   
-  // Create account instance
-  const account = getAccount(params.privateKey, fromAddress, network);
+  // Enforce recipient lists and spending limits before anything is signed
+  const reservation = await checkTransfer({
+    network,
+    accountAlias: params.account,
+    accountAddress: fromAddress,
+    tokenAddress,
+    tokenSymbol,
+    decimals,
+    amount,
+    recipient: toAddress,
+    recipientInput: params.to,
+    unlimitedApproval: options.unlimitedApproval
+  });
   
   // Prepare transaction
   const tx = {
@@ -101,48 +151,262 @@ async function prepareTransfer(
     })
   };
   
-  return { account, tx, amount, fromAddress, toAddress };
+  return { account, tx, amount, fromAddress, toAddress, reservation };
+}
+
+/**
+ * Compile the calldata of a contract call from raw calldata or from ABI-encoded arguments
+ * @param contractAddress Resolved contract address
+ * @param entrypoint Function name
+ * @param call Raw `calldata` or named `args`
+ * @param network Network name
+ * @returns The compiled calldata
+ */
+export async function compileCalldata(
+  contractAddress: string,
+  entrypoint: string,
+  call: { calldata?: any[]; args?: NamedArgs },
+  network: string
+): Promise<string[]> {
+  if (call.calldata && call.args !== undefined) {
+    throw new Error('Pass either calldata or args, not both');
+  }
+  if (call.args !== undefined) {
+    return encodeContractArgs(contractAddress, entrypoint, call.args, network);
+  }
+  return call.calldata ? CallData.compile(call.calldata) : [];
+}
+
+/**
+ * Check the token transfers and approvals among encoded calls against the recipient lists and
+ * spending limits, like the transfer tools do
+ * Calls to `transfer`, `transfer_from`, `approve` and `increase_allowance` (or their camelCase
+ * names) are decoded on any contract. A call whose calldata cannot be decoded, or whose token
+ * decimals cannot be read while limits are set, is refused.
+ * @param calls The encoded calls
+ * @param signer Alias and address of the signing account
+ * @param network Network name
+ * @param options Whether the calls pay a paymaster's fee, which is only counted against the limits
+ * @returns A reservation covering the spends, or null if no limit tracks them
+ * @throws PolicyViolationError if a guardrail rejects one of the calls
+ */
+async function checkTokenCalls(
+  calls: Array<{ contractAddress: string; entrypoint: string; calldata: string[] }>,
+  signer: { alias?: string; address: string },
+  network: string,
+  options: { paymasterFee?: boolean } = {}
+): Promise<SpendReservation | null> {
+  const guardrails = getTransferGuardrails();
+  if (!guardrails.recipientLists && !guardrails.limits) return null;
+  
+  const checks: TransferCheck[] = [];
+  for (const [index, call] of calls.entries()) {
+    const layout = TOKEN_CALLS[call.entrypoint];
+    if (!layout) continue;
+    
+    const details = { call: index, contract: call.contractAddress, entrypoint: call.entrypoint };
+    if (call.calldata.length !== layout.length) {
+      throw new PolicyViolationError(
+        'undecodable_token_call',
+        `Call ${index}: ${call.entrypoint} calldata has ${call.calldata.length} elements instead of ${layout.length}, so it cannot be checked against the guardrails`,
+        details
+      );
+    }
+    
+    const recipient = num.toHex(call.calldata[layout.recipient]);
+    const amount = readU256(call.calldata.slice(layout.amount, layout.amount + 2));
+    const token = await resolveToken(call.contractAddress, network);
+    
+    // Decimals are only needed to compare the amount with the limits
+    let decimals = 0;
+    if (guardrails.limits) {
+      try {
+        decimals = await getTokenDecimals(token.address, network);
+      } catch (error) {
+        throw new PolicyViolationError(
+          'undecodable_token_call',
+          `Call ${index}: cannot read the decimals of ${call.contractAddress} to check the spending limits: ${(error as Error).message}`,
+          details
+        );
+      }
+    }
+    
+    checks.push({
+      network,
+      accountAlias: signer.alias,
+      accountAddress: signer.address,
+      tokenAddress: token.address,
+      tokenSymbol: token.symbol,
+      decimals,
+      amount,
+      recipient,
+      recipientInput: recipient,
+      paymasterFee: options.paymasterFee,
+      unlimitedApproval: layout.approval && amount >= UNLIMITED_ALLOWANCE
+    });
+  }
+  
+  return checkTransfers(checks);
+}
+
+/**
+ * Resolve, check and encode the calls of a multicall
+ * Every contract address is resolved (addresses or Starknet IDs) and checked against the
+ * contract allowlist before anything is signed; errors name the failing call. Token transfers
+ * and approvals among the calls are checked against the recipient lists and spending limits.
+ * @param calls Calls with raw `calldata` or named `args`
+ * @param network Network name
+ * @param signer Alias and address of the signing account
+ * @returns The calls, ready to sign, and the spend reserved for their token transfers
+ */
+export async function prepareCalls(
+  calls: Array<{
+    contractAddress: string; // Can be an address or a Starknet ID
+    entrypoint: string;
+    calldata?: any[];
+    args?: NamedArgs;
+  }>,
+  network: string,
+  signer: { alias?: string; address: string }
+): Promise<{ calls: Call[]; reservation: SpendReservation | null }> {
+  const prepared: Array<Call & { calldata: string[] }> = [];
+  for (const [index, call] of calls.entries()) {
+    // Resolve each contract address which could be either an address or a Starknet ID
+    let contractAddress: string;
+    try {
+      contractAddress = parseStarknetAddress(
+        await utils.resolveNameOrAddress(call.contractAddress, network)
+      );
+    } catch (error) {
+      throw new Error(`Call ${index}: ${(error as Error).message}`);
+    }
+    
+    // Enforce the contract allowlist for every call before anything is signed
+    await checkContractCall({
+      network,
+      contractAddress,
+      contractInput: call.contractAddress,
+      entrypoint: call.entrypoint
+    });
+    
+    let calldata: string[];
+    try {
+      calldata = await compileCalldata(contractAddress, call.entrypoint, call, network);
+    } catch (error) {
+      throw new Error(`Call ${index}: ${(error as Error).message}`);
+    }
+    
+    prepared.push({
+      contractAddress,
+      entrypoint: call.entrypoint,
+      calldata
+    });
+  }
+  
+  // Token transfers and approvals are limited like the transfer tools
+  const reservation = await checkTokenCalls(prepared, signer, network);
+  
+  return { calls: prepared, reservation };
 }
 
 /**
- * Execute a prepared transaction with proper fee estimation
+ * Execute a prepared transaction with proper fee estimation, or simulate it in dry-run mode
+ * With a paymaster, the calls are signed as a SNIP-9 outside execution and the paymaster
+ * submits them and pays the gas instead of the account. The fee it charges in a token is
+ * counted against the account's spending limits for that token.
  * @param account The account instance
  * @param tx The transaction object
- * @param maxFeeOverride Optional override for max fee
+ * @param feeOptions Fee token, max fee or resource bounds, tip and fee margin, or a paymaster and
+ * gas token; `account` is the alias of the signer, matched by the spending limits
  * @param network Network name
- * @returns Transaction result
+ * @param reservation Spend counted by the guardrails, released if the transaction is not sent
+ * @param dryRun Simulate instead of broadcasting (defaults to the server setting)
+ * @returns Transaction result with the fee used, or the simulation report in dry-run mode
  */
-async function executeTransaction(
+export async function executeTransaction(
   account: any,
   tx: any,
-  maxFeeOverride: string | bigint | undefined,
-  network: string
-): Promise<TransferResult> {
-  const provider = getProvider(network);
+  feeOptions: FeeOptions & PaymasterOptions & { account?: string },
+  network: string,
+  reservation?: SpendReservation | null,
+  dryRun = isDryRunDefault()
+): Promise<TransferResult | SimulationReport> {
+  if (feeOptions.paymaster === undefined && feeOptions.gasToken !== undefined) {
+    reservation?.release();
+    throw new Error('gasToken only applies to transactions submitted through a paymaster');
+  }
+  if (feeOptions.paymaster !== undefined && (feeOptions.maxFee !== undefined || feeOptions.resourceBounds || feeOptions.tip !== undefined)) {
+    reservation?.release();
+    throw new Error('maxFee, resourceBounds and tip do not apply to transactions submitted through a paymaster');
+  }
+
+  // Quote the paymaster first: the fee calls it appends are checked like the account's own transfers
+  let quoted: QuotedPaymasterCalls | null = null;
+  let feeReservation: SpendReservation | null = null;
+  if (feeOptions.paymaster !== undefined) {
+    try {
+      quoted = await quotePaymasterCalls(account, Array.isArray(tx) ? tx : [tx], feeOptions, network);
+      feeReservation = await checkTokenCalls(
+        quoted.quote.feeCalls.map(call => ({ ...call, calldata: CallData.compile(call.calldata ?? []) })),
+        { alias: feeOptions.account, address: account.address },
+        network,
+        { paymasterFee: true }
+      );
+    } catch (error) {
+      reservation?.release();
+      throw error;
+    }
+  }
+  
+  const release = () => {
+    reservation?.release();
+    feeReservation?.release();
+  };
+  const confirm = (txHash: string) => {
+    reservation?.confirm(txHash);
+    feeReservation?.confirm(txHash);
+  };
+
+  if (dryRun) {
+    try {
+      const version = getTransactionVersion(feeOptions.feeToken ?? getDefaultFeeToken());
+      // Simulate the paymaster's fee calls along with the transaction
+      return await simulateCalls(account, quoted ? quoted.calls : tx, network, { version });
+    } finally {
+      // Nothing was sent, so nothing counts against the spending limits
+      release();
+    }
+  }
   
   try {
-    // Get fee estimate
-    const { suggestedMaxFee } = await account.estimateFee(tx);
-    
-    // Use provided maxFee or suggested fee from estimation
-    const maxFee = maxFeeOverride ? 
-      (typeof maxFeeOverride === 'string' ? BigInt(maxFeeOverride) : maxFeeOverride) : 
-      suggestedMaxFee;
-    
-    // Execute transaction
-    const response = await account.execute(
-      tx,
-      undefined,
-      { maxFee }
-    );
+    if (quoted) {
+      const { txHash, fee, receipt } = await submitWithPaymaster(account, quoted, network);
+      confirm(txHash);
+      
+      return {
+        txHash,
+        fee,
+        paymaster: receipt,
+        waitForConfirmation: options => waitForTransaction(txHash, options, network)
+      };
+    }
+    
+    // Estimate the fee and derive the max fee (V1) or resource bounds (V3)
+    const { details, fee } = await resolveFeeDetails(details => account.estimateInvokeFee(tx, details), feeOptions);
+    
+    // Execute transaction with a nonce reserved for the account
+    const response = await submitWithNonce(account, network, nonce => account.execute(tx, { ...details, nonce }));
     
     const txHash = response.transaction_hash;
+    confirm(txHash);
     
     return {
       txHash,
-      waitForConfirmation: () => provider.waitForTransaction(txHash)
+      fee,
+      waitForConfirmation: options => waitForTransaction(txHash, options, network)
     };
   } catch (error) {
+    release();
     console.error('Error executing transaction:', error);
     throw new Error(`Transaction failed: ${(error as Error).message}`);
   }
@@ -157,17 +421,19 @@ async function executeTransaction(
 export async function transferETH(
   params: TransferBaseParams,
   network = 'mainnet'
-): Promise<TransferResult> {
+): Promise<TransferResult | SimulationReport> {
   try {
-    const { account, tx } = await prepareTransfer(
+    const { account, tx, reservation } = await prepareTransfer(
       params, 
       TOKEN_ADDRESSES.ETH,
       TOKEN_DECIMALS.ETH,
-      network
+      network,
+      'ETH'
     );
     
-    return executeTransaction(account, tx, params.maxFee, network);
+    return await executeTransaction(account, tx, params, network, reservation, params.dryRun);
   } catch (error) {
+    if (error instanceof PolicyViolationError) throw error;
     console.error('Error transferring ETH:', error);
     throw new Error(`ETH transfer failed: ${(error as Error).message}`);
   }
@@ -182,22 +448,60 @@ export async function transferETH(
 export async function transferSTRK(
   params: TransferBaseParams,
   network = 'mainnet'
-): Promise<TransferResult> {
+): Promise<TransferResult | SimulationReport> {
   try {
-    const { account, tx } = await prepareTransfer(
+    const { account, tx, reservation } = await prepareTransfer(
       params, 
       TOKEN_ADDRESSES.STRK,
       TOKEN_DECIMALS.STRK,
-      network
+      network,
+      'STRK'
     );
     
-    return executeTransaction(account, tx, params.maxFee, network);
+    return await executeTransaction(account, tx, params, network, reservation, params.dryRun);
   } catch (error) {
+    if (error instanceof PolicyViolationError) throw error;
     console.error('Error transferring STRK:', error);
     throw new Error(`STRK transfer failed: ${(error as Error).message}`);
   }
 }
 
+/**
+ * Get the number of decimals of a token
+ * @param tokenAddress Token contract address
+ * @param network Network name
+ * @returns The decimals (18 for ETH and STRK, without a call)
+ */
+async function getTokenDecimals(tokenAddress: string, network: string): Promise<number> {
+  for (const [symbol, address] of Object.entries(TOKEN_ADDRESSES)) {
+    if (BigInt(address) === BigInt(tokenAddress)) {
+      return TOKEN_DECIMALS[symbol as keyof typeof TOKEN_DECIMALS];
+    }
+  }
+  
+  const provider = getProvider(network);
+  const contract = await getContract(tokenAddress, provider, network);
+  const decimalsResponse = await contract.call('decimals', []);
+  return Number(decimalsResponse.toString());
+}
+
+/**
+ * Resolve a token given as ETH, STRK, an address or a Starknet ID
+ * @param token The token
+ * @param network Network name
+ * @returns The token address and its symbol if it is ETH or STRK
+ */
+async function resolveToken(token: string, network: string): Promise<{ address: string; symbol?: string }> {
+  const symbol = token.toUpperCase();
+  if (symbol === 'ETH' || symbol === 'STRK') {
+    return { address: TOKEN_ADDRESSES[symbol], symbol };
+  }
+  
+  const address = parseStarknetAddress(await utils.resolveNameOrAddress(token, network));
+  const known = Object.entries(TOKEN_ADDRESSES).find(([, tokenAddress]) => BigInt(tokenAddress) === BigInt(address));
+  return { address, symbol: known?.[0] };
+}
+
 /**
  * Transfer ERC20 tokens from one account to another
  * @param params Transfer parameters
@@ -207,33 +511,128 @@ export async function transferSTRK(
 export async function transferERC20(
   params: TransferBaseParams & { tokenAddress: string; decimals?: number },
   network = 'mainnet'
-): Promise<TransferResult> {
+): Promise<TransferResult | SimulationReport> {
   try {
     const tokenAddress = parseStarknetAddress(params.tokenAddress);
     
     // If decimals not provided, fetch them from the token contract
-    let decimals = params.decimals;
-    if (decimals === undefined) {
-      const provider = getProvider(network);
-      const contract = await getContract(tokenAddress, provider, network);
-      const decimalsResponse = await contract.call('decimals', []);
-      decimals = Number(decimalsResponse.toString());
-    }
+    const decimals = params.decimals ?? await getTokenDecimals(tokenAddress, network);
     
-    const { account, tx } = await prepareTransfer(
+    const { account, tx, reservation } = await prepareTransfer(
       params, 
       tokenAddress,
       decimals,
       network
     );
     
-    return executeTransaction(account, tx, params.maxFee, network);
+    return await executeTransaction(account, tx, params, network, reservation, params.dryRun);
   } catch (error) {
+    if (error instanceof PolicyViolationError) throw error;
     console.error('Error transferring ERC20 token:', error);
     throw new Error(`ERC20 transfer failed: ${(error as Error).message}`);
   }
 }
 
+/**
+ * Approve a spender to transfer tokens of an account
+ * Approvals are checked against the recipient lists and spending limits like transfers, with
+ * the spender as recipient. Unlimited approvals come with a warning, since the spender can take
+ * the whole balance, now and later, until the approval is set back to 0; they are refused for
+ * tokens with a spending limit unless the guardrails allow them, and never counted as spend.
+ * @param params Signer, token (ETH, STRK, address or Starknet ID), spender in `to`, and the
+ * amount in human-readable units or "unlimited"
+ * @param network Network name (mainnet, sepolia)
+ * @returns Transaction details, with a warning for unlimited approvals
+ */
+export async function approveToken(
+  params: TransferBaseParams & { token: string; decimals?: number },
+  network = 'mainnet'
+): Promise<(TransferResult | SimulationReport) & { warning?: string }> {
+  try {
+    const token = await resolveToken(params.token, network);
+    const decimals = params.decimals ?? await getTokenDecimals(token.address, network);
+    const unlimited = typeof params.amount === 'string' && params.amount.trim().toLowerCase() === 'unlimited';
+    
+    const { account, amount, toAddress, reservation } = await prepareTransfer(
+      params,
+      token.address,
+      decimals,
+      network,
+      token.symbol,
+      { unlimitedApproval: unlimited }
+    );
+    
+    const tx = {
+      contractAddress: token.address,
+      entrypoint: 'approve',
+      calldata: CallData.compile({
+        spender: toAddress,
+        amount: uint256.bnToUint256(amount)
+      })
+    };
+    
+    const result = await executeTransaction(account, tx, params, network, reservation, params.dryRun);
+    if (!unlimited) return result;
+    
+    return {
+      ...result,
+      warning: `Unlimited approval: ${params.to} can transfer all of this account's ${token.symbol ?? token.address} tokens, now and in the future, until the approval is set back to 0`
+    };
+  } catch (error) {
+    if (error instanceof PolicyViolationError) throw error;
+    console.error('Error approving token:', error);
+    throw new Error(`Token approval failed: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Transfer tokens of another owner using the account's allowance
+ * The transfer is checked against the recipient lists and spending limits of the account
+ * that signs it.
+ * @param params Signer (the spender), token, owner, recipient in `to` and amount in
+ * human-readable units
+ * @param network Network name (mainnet, sepolia)
+ * @returns Transaction details
+ */
+export async function transferFromToken(
+  params: TransferBaseParams & { token: string; owner: string; decimals?: number },
+  network = 'mainnet'
+): Promise<TransferResult | SimulationReport> {
+  try {
+    const token = await resolveToken(params.token, network);
+    const decimals = params.decimals ?? await getTokenDecimals(token.address, network);
+    const owner = parseStarknetAddress(await utils.resolveNameOrAddress(params.owner, network));
+    
+    // Cairo 1 tokens name it transfer_from; Cairo 0 tokens and camelCase mixins transferFrom
+    const contract = await getContract(token.address, getProvider(network), network);
+    const entrypoint = getAbiFunction(contract.abi, 'transfer_from') ? 'transfer_from' : 'transferFrom';
+    
+    const { account, amount, toAddress, reservation } = await prepareTransfer(
+      params,
+      token.address,
+      decimals,
+      network,
+      token.symbol
+    );
+    
+    const tx = {
+      contractAddress: token.address,
+      entrypoint,
+      calldata: CallData.compile({
+        sender: owner,
+        recipient: toAddress,
+        amount: uint256.bnToUint256(amount)
+      })
+    };
+    
+    return await executeTransaction(account, tx, params, network, reservation, params.dryRun);
+  } catch (error) {
+    if (error instanceof PolicyViolationError) throw error;
+    console.error('Error transferring tokens from owner:', error);
+    throw new Error(`transferFrom failed: ${(error as Error).message}`);
+  }
+}
+
 /**
  * Execute an arbitrary contract call
  * @param params Call parameters
@@ -241,37 +640,99 @@ export async function transferERC20(
  * @returns Transaction details
  */
 export async function executeContract(
-  params: {
-    privateKey: string;
-    accountAddress: string;
+  params: FeeOptions & PaymasterOptions & {
+    account?: string; // Alias of a configured account
+    privateKey?: string;
+    accountAddress?: string;
     contractAddress: string; // Can be an address or a Starknet ID
     entrypoint: string;
     calldata?: any[];
-    maxFee?: string | bigint;
+    args?: NamedArgs; // Named (or ordered) arguments, encoded using the contract's ABI
+    dryRun?: boolean;
   },
   network = 'mainnet'
-): Promise<TransferResult> {
+): Promise<TransferResult | SimulationReport> {
   try {
-    const accountAddress = parseStarknetAddress(params.accountAddress);
-    
     // Resolve the contract address which could be either an address or a Starknet ID
     const contractAddress = parseStarknetAddress(
       await utils.resolveNameOrAddress(params.contractAddress, network)
     );
     
-    // Create account instance
-    const account = getAccount(params.privateKey, accountAddress, network);
+    // Create account instance from the account alias or private key
+    const account = getAccount({
+      account: params.account,
+      privateKey: params.privateKey,
+      address: params.accountAddress
+    }, network);
+    
+    // Enforce the contract allowlist before anything is signed
+    await checkContractCall({
+      network,
+      contractAddress,
+      contractInput: params.contractAddress,
+      entrypoint: params.entrypoint
+    });
     
     // Prepare transaction
     const tx = {
       contractAddress,
       entrypoint: params.entrypoint,
-      calldata: params.calldata ? CallData.compile(params.calldata) : []
+      calldata: await compileCalldata(contractAddress, params.entrypoint, params, network)
     };
     
-    return executeTransaction(account, tx, params.maxFee, network);
+    // Token transfers and approvals are limited like the transfer tools
+    const reservation = await checkTokenCalls([tx], { alias: params.account, address: account.address }, network);
+    
+    return await executeTransaction(account, tx, params, network, reservation, params.dryRun);
   } catch (error) {
+    if (error instanceof PolicyViolationError) throw error;
     console.error('Error executing contract call:', error);
     throw new Error(`Contract execution failed: ${(error as Error).message}`);
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Execute several contract calls atomically in a single transaction
+ * Calls run in the given order and either all succeed or the whole transaction reverts.
+ * Token transfers in the batch are added up per token against the spending limits, and the
+ * batch is rejected as a whole if one of its calls breaks a guardrail.
+ * @param params Multicall parameters
+ * @param network Network name (mainnet, sepolia)
+ * @returns Transaction details, or the simulation report of the whole batch in dry-run mode
+ */
+export async function executeMulticall(
+  params: FeeOptions & PaymasterOptions & {
+    account?: string; // Alias of a configured account
+    privateKey?: string;
+    accountAddress?: string;
+    calls: Array<{
+      contractAddress: string; // Can be an address or a Starknet ID
+      entrypoint: string;
+      calldata?: any[];
+      args?: NamedArgs;
+    }>;
+    dryRun?: boolean;
+  },
+  network = 'mainnet'
+): Promise<TransferResult | SimulationReport> {
+  try {
+    if (params.calls.length === 0) {
+      throw new Error('At least one call is required');
+    }
+    
+    // Create account instance from the account alias or private key
+    const account = getAccount({
+      account: params.account,
+      privateKey: params.privateKey,
+      address: params.accountAddress
+    }, network);
+    
+    const { calls, reservation } = await prepareCalls(params.calls, network, { alias: params.account, address: account.address });
+    
+    return await executeTransaction(account, calls, params, network, reservation, params.dryRun);
+  } catch (error) {
+    if (error instanceof PolicyViolationError) throw error;
+    console.error('Error executing multicall:', error);
+    throw new Error(`Multicall execution failed: ${(error as Error).message}`);
+  }
+}
@@ -82,6 +82,7 @@ export const utils = {
   
   /**
    * Compute the starknet keccak hash of a string
+   * This is not a SNIP-12 message hash; use hashTypedData for messages to sign.
    * @param value The string to hash
    * @returns Hash as string
    */
@@ -1,28 +1,186 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { getSupportedNetworks, getRpcUrl, getChainId } from "./chains.js";
+import { getSupportedNetworks, getChainId } from "./chains.js";
 import * as services from "./services/index.js";
 
+/**
+ * Build the tool result for a transaction rejected by the guardrails
+ * @param error The policy violation
+ * @returns A structured error result
+ */
+function policyViolationResult(error: services.PolicyViolationError) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify(error.toJSON(), null, 2)
+    }],
+    isError: true
+  };
+}
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Build the progress callback of a wait for a transaction
+ * Progress notifications are only sent when the client asked for them with a progress token.
+ * @param extra Request context of the tool call
+ * @returns Wait options reporting progress and following cancellation of the tool call
+ */
+function waitOptions(extra: ToolExtra): services.WaitOptions {
+  const progressToken = extra._meta?.progressToken;
+
+  return {
+    signal: extra.signal,
+    onProgress: progressToken === undefined ? undefined : async progress => {
+      // A lost notification must not abort the wait
+      try {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: progress.step,
+            total: progress.total,
+            message: `Transaction ${progress.finality}${progress.execution ? ` (${progress.execution})` : ""} after ${Math.round(progress.elapsedMs / 1000)}s`
+          }
+        });
+      } catch (error) {
+        console.error("Could not send progress notification:", error);
+      }
+    }
+  };
+}
+
+/**
+ * Outcome of waiting for a submitted transaction
+ * A wait that fails (timeout of the node, RPC error, cancellation) says nothing about the
+ * transaction itself, which was already submitted.
+ */
+type WaitOutcome = { confirmation: services.WaitResult } | { confirmationError: string };
+
+/**
+ * Wait for a submitted transaction without throwing
+ * @param wait Waits for the transaction
+ * @returns The wait result, or why waiting failed
+ */
+async function settleWait(wait: () => Promise<services.WaitResult>): Promise<WaitOutcome> {
+  try {
+    return { confirmation: await wait() };
+  } catch (error: any) {
+    return {
+      confirmationError: `The transaction was submitted, but waiting for its confirmation failed: ${error.message || "Unknown error occurred"}. Do not submit it again: check it with wait_for_starknet_transaction or check_starknet_transaction_status.`
+    };
+  }
+}
+
+/**
+ * Wait for a submitted write if the caller asked for it
+ * @param result Result of a write service
+ * @param waitForConfirmation The tool's waitForConfirmation argument
+ * @param extra Request context of the tool call
+ * @returns The wait outcome, or undefined for dry runs and when not asked to wait
+ */
+async function confirmWrite(
+  result: services.TransferResult | services.SimulationReport,
+  waitForConfirmation: boolean | undefined,
+  extra: ToolExtra
+): Promise<WaitOutcome | undefined> {
+  if (!waitForConfirmation || "dryRun" in result) return undefined;
+  return settleWait(() => result.waitForConfirmation(waitOptions(extra)));
+}
+
+/**
+ * Build the tool result for a submitted transaction or a dry-run simulation
+ * @param result Result of a write service
+ * @param outcome Outcome of waiting for the transaction, when the caller asked to wait
+ * @returns The tool result
+ */
+function writeResult(
+  result: (services.TransferResult | services.SimulationReport) & { warning?: string },
+  outcome?: WaitOutcome
+) {
+  if ("dryRun" in result) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify(result, null, 2)
+      }]
+    };
+  }
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        txHash: result.txHash,
+        fee: result.fee,
+        ...(result.paymaster && { paymaster: result.paymaster }),
+        ...(result.warning && { warning: result.warning }),
+        ...(outcome ?? { message: "Transaction submitted successfully. Use wait_for_starknet_transaction or check_starknet_transaction_status to check status." })
+      }, null, 2)
+    }]
+  };
+}
+
 /**
  * Register all Starknet-related tools with the MCP server
  * 
  * @param server The MCP server instance
  */
 export function registerTools(server: McpServer) {
+  // Signer arguments shared by the write tools. The privateKey argument is only
+  // exposed when raw private keys are allowed on this server.
+  const privateKeyArgs = {
+    privateKey: z.string().optional().describe("Private key of the sender account (not stored, only used to sign the transaction). Prefer 'account'.")
+  };
+  const signerArgs: { account: z.ZodOptional<z.ZodString> } & Partial<typeof privateKeyArgs> = {
+    account: z.string().optional().describe("Alias of a configured account to sign with (see list_starknet_accounts)"),
+    ...(services.isPrivateKeyInputAllowed() ? privateKeyArgs : {})
+  };
+
+  // Fee arguments shared by the write tools
+  const resourceBoundArg = z.object({
+    maxAmount: z.string().describe("Maximum amount of the resource"),
+    maxPricePerUnit: z.string().describe("Maximum price per unit, in fri")
+  });
+  const feeArgs = {
+    feeToken: z.enum(["ETH", "STRK"]).optional().describe("Token to pay the fee in: ETH (V1 transaction) or STRK (V3 transaction). Defaults to the server setting (ETH)."),
+    maxFee: z.string().optional().describe("Maximum fee in wei, ETH fees only (optional, defaults to the estimate times feeMargin)"),
+    resourceBounds: z.object({
+      l1Gas: resourceBoundArg.optional(),
+      l2Gas: resourceBoundArg.optional()
+    }).optional().describe("Resource bounds overriding the estimate, STRK fees only (optional)"),
+    tip: z.string().optional().describe("Tip in fri, STRK fees only (optional)"),
+    feeMargin: z.number().min(1).optional().describe("Multiplier applied to the fee estimate to set the max fee; for STRK fees it applies to both the gas amount and the gas price bounds (optional, default 1.5)")
+  };
+  
+  // Paymaster arguments of the write tools that submit invoke transactions
+  const paymasterArgs = {
+    paymaster: z.string().optional().describe("Submit through this paymaster (e.g. 'local') as a SNIP-9 outside execution, so the account needs no gas tokens (optional)"),
+    gasToken: z.string().optional().describe("With a paymaster: token to pay it in (ETH, STRK or address); omit for a sponsored transaction")
+  };
+  
+  // Argument of the write tools that waits for the transaction to be accepted
+  const waitArg = z.boolean().optional().describe("Wait until the transaction is accepted on L2 (up to 2 minutes, with progress notifications) and return its decoded receipt. Defaults to false.");
+  
+  // Arguments encoded using a contract's ABI
+  const namedArgsArg = z.union([z.record(z.any()), z.array(z.any())]);
+  
   // NETWORK INFORMATION TOOLS
   
   // Get chain information
   server.tool(
     "get_starknet_chain_info",
-    "Get information about a Starknet network",
+    "Get information about a Starknet network, including the active RPC endpoint and the health of its endpoint pool",
     {
       network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
     },
     async ({ network = "mainnet" }) => {
       try {
         const blockNumber = await services.getBlockNumber(network);
-        const rpcUrl = getRpcUrl(network);
         const chainId = getChainId(network);
+        const endpoints = await services.checkEndpointHealth(network);
         
         return {
           content: [{
@@ -31,7 +189,8 @@ export function registerTools(server: McpServer) {
               network,
               chainId,
               blockNumber,
-              rpcUrl
+              rpcUrl: services.redactRpcUrl(services.getActiveRpcUrl(network)),
+              endpoints
             }, null, 2)
           }]
         };
@@ -64,6 +223,24 @@ export function registerTools(server: McpServer) {
     }
   );
   
+  // Get response cache statistics
+  server.tool(
+    "get_starknet_cache_stats",
+    "Get hit/miss statistics and size of the RPC response cache and the ABI store",
+    {},
+    async () => {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            responses: services.getCacheStats(),
+            abis: services.getAbiCacheStats()
+          }, null, 2)
+        }]
+      };
+    }
+  );
+  
   // BALANCE TOOLS
   
   // Get ETH balance
@@ -197,6 +374,37 @@ export function registerTools(server: McpServer) {
     }
   );
   
+  // Get all known token balances (bundled token list plus extra tokens)
+  server.tool(
+    "get_starknet_portfolio",
+    "Get the non-zero balances of a Starknet address or Starknet ID across the bundled token list of the network (ETH, STRK, USDC, USDT, DAI, WBTC, wstETH, LORDS and more), plus any extra tokens. Balance calls are batched.",
+    {
+      address: z.string().describe("Starknet address or Starknet ID (with or without .stark)"),
+      tokens: z.array(z.string()).optional().describe("Extra token addresses or Starknet IDs to check besides the bundled list"),
+      includeZero: z.boolean().optional().describe("Also list tokens with a zero balance (default: false)"),
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ address, tokens, includeZero, network = "mainnet" }) => {
+      try {
+        const portfolio = await services.getPortfolio(address, network, { tokens, includeZero });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(portfolio, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error fetching portfolio: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
   // STARKNET ID TOOLS
   
   // Resolve address to Starknet ID
@@ -450,41 +658,124 @@ export function registerTools(server: McpServer) {
     }
   );
   
+  // Explain a transaction
+  server.tool(
+    "explain_starknet_transaction",
+    "Explain a transaction in readable form: the account multicall decoded into per-call contract, entrypoint and named arguments, events decoded with the emitting contracts' ABIs, ERC20/ERC721 transfers with token symbols and amounts, execution status and the fee paid",
+    {
+      txHash: z.string().describe("Transaction hash"),
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ txHash, network = "mainnet" }) => {
+      try {
+        const explanation = await services.explainTransaction(txHash, network);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(explanation, (key, value) =>
+              typeof value === 'bigint' ? services.utils.toFelt(value) : value, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error explaining transaction: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Trace a transaction
+  server.tool(
+    "trace_starknet_transaction",
+    "Get the execution trace of a transaction as a call tree (contract, entrypoint name resolved from the class ABI, decoded arguments, events and nested calls per frame) with a readable revert reason, Cairo panic felts decoded to strings",
+    {
+      txHash: z.string().describe("Transaction hash"),
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ txHash, network = "mainnet" }) => {
+      try {
+        const trace = await services.traceTransaction(txHash, network);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(trace, (key, value) =>
+              typeof value === 'bigint' ? services.utils.toFelt(value) : value, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error tracing transaction: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
   // CONTRACT TOOLS
   
   // Call contract
   server.tool(
     "call_starknet_contract",
-    "Call a read-only function on a contract",
+    "Call a read-only function on a contract. With named args, arguments are encoded and the result decoded using the contract's ABI.",
     {
       contractAddress: z.string().describe("Contract address or Starknet ID"),
       entrypoint: z.string().describe("Function name to call"),
-      calldata: z.array(z.string()).optional().describe("Call data array (optional)"),
-      resultTypes: z.array(z.enum(['felt', 'uint256', 'address', 'string'])).optional().describe("Expected return types for each result value (e.g., ['felt', 'uint256', 'address'])"),
+      calldata: z.array(z.string()).optional().describe("Raw call data array (optional, instead of args)"),
+      args: namedArgsArg.optional().describe("Arguments encoded using the contract's ABI (instead of calldata): an object keyed by parameter name or an array in declaration order. Structs are objects, enums {\"Variant\": value} (or the variant name for unit variants), Option a value or null, tuples and arrays are arrays, u256 a decimal or hex string and ByteArray a string."),
+      resultTypes: z.array(z.enum(['felt', 'uint256', 'address', 'string'])).optional().describe("Expected return types for each result value (e.g., ['felt', 'uint256', 'address']); by default the result is decoded using the contract's ABI"),
       network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
     },
-    async ({ contractAddress, entrypoint, calldata = [], resultTypes, network = "mainnet" }) => {
+    async ({ contractAddress, entrypoint, calldata, args, resultTypes, network = "mainnet" }) => {
       try {
+        if (calldata && args) {
+          throw new Error("Pass either calldata or args, not both");
+        }
+        
         // Resolve contract address if it's a Starknet ID
         const resolvedContractAddress = await services.utils.resolveNameOrAddress(contractAddress, network);
         
         const rawResult = await services.callContract({
           contractAddress: resolvedContractAddress,
           entrypoint,
-          calldata
+          calldata,
+          args
         }, network);
         
         // Format the result based on expected types if provided
-        const formattedResult = resultTypes 
-          ? services.formatCallResult(rawResult, resultTypes)
-          : rawResult;
+        if (resultTypes) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                result: services.formatCallResult(rawResult, resultTypes)
+              }, (key, value) => 
+                typeof value === 'bigint' ? services.utils.toFelt(value) : value, 2)
+            }]
+          };
+        }
+        
+        // Otherwise decode it from the ABI, falling back to the raw felts
+        let decoded: { result: unknown; raw?: string[]; decodeError?: string };
+        try {
+          decoded = {
+            result: await services.decodeCallResult(resolvedContractAddress, entrypoint, rawResult, network),
+            raw: rawResult
+          };
+        } catch (error: any) {
+          decoded = { result: rawResult, decodeError: error.message };
+        }
         
         return {
           content: [{
             type: "text",
-            text: JSON.stringify({
-              result: formattedResult
-            }, (key, value) => 
+            text: JSON.stringify(decoded, (key, value) => 
               typeof value === 'bigint' ? services.utils.toFelt(value) : value, 2)
           }]
         };
@@ -540,6 +831,128 @@ export function registerTools(server: McpServer) {
     }
   );
   
+  // Describe a contract's interface
+  server.tool(
+    "describe_starknet_contract",
+    "Summarize a contract's interface from its ABI: functions (view/external, typed inputs and outputs), interfaces, events, constructor, structs and enums, and detected standards (ERC20, ERC721, ERC1155, account, upgradeable, proxy, SRC5). Much smaller than get_starknet_contract_class.",
+    {
+      contractAddress: z.string().optional().describe("Contract address or Starknet ID"),
+      classHash: z.string().optional().describe("Class hash, instead of a contract address"),
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ contractAddress, classHash, network = "mainnet" }) => {
+      try {
+        // Resolve contract address if it's a Starknet ID
+        const resolvedContractAddress = contractAddress
+          ? await services.utils.resolveNameOrAddress(contractAddress, network)
+          : undefined;
+        
+        const description = await services.describeContract({
+          contractAddress: resolvedContractAddress,
+          classHash
+        }, network);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(description, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error describing contract: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Classify an address
+  server.tool(
+    "classify_starknet_address",
+    "Classify a Starknet address as an account (with wallet vendor: Argent, Braavos, OpenZeppelin), multisig, ERC20/ERC721/ERC1155 token, proxy or other contract, using known class hashes, SRC5 supports_interface and ABI heuristics",
+    {
+      address: z.string().describe("Starknet address or Starknet ID"),
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ address, network = "mainnet" }) => {
+      try {
+        // Resolve address if it's a Starknet ID
+        const resolvedAddress = await services.utils.resolveNameOrAddress(address, network);
+        const classification = await services.classifyAddress(resolvedAddress, network);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(classification, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error classifying address: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Query events
+  server.tool(
+    "get_starknet_events",
+    "Query events emitted on Starknet, filtered by contract, event name and keys over a block range, decoded with the emitting contract's ABI. Large ranges are scanned in chunks: when continuationToken is returned, call again with the same filters and that token to get the next page.",
+    {
+      contractAddress: z.string().optional().describe("Address or Starknet ID of the emitting contract. Events of all contracts when omitted (requires narrow filters)."),
+      eventNames: z.array(z.string()).optional().describe("Event names to match (e.g., ['Transfer', 'Approval']), converted to selectors on the first key"),
+      keys: z.array(z.array(z.string())).optional().describe("Key filter per position: each position matches any of the given felts, an empty list matches anything. The first position is the event selector."),
+      fromBlock: z.number().optional().describe("First block of the range. Defaults to 1000 blocks before toBlock."),
+      toBlock: z.number().optional().describe("Last block of the range. Defaults to the latest block."),
+      pageSize: z.number().optional().describe("Maximum number of events to return (default 100, max 1000)"),
+      continuationToken: z.string().optional().describe("Token returned by the previous page"),
+      decode: z.boolean().optional().describe("Decode events with the emitting contract's ABI (default true)"),
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ contractAddress, eventNames, keys, fromBlock, toBlock, pageSize, continuationToken, decode, network = "mainnet" }) => {
+      try {
+        // Resolve contract address if it's a Starknet ID
+        const resolvedContractAddress = contractAddress
+          ? await services.utils.resolveNameOrAddress(contractAddress, network)
+          : undefined;
+
+        const page = await services.getEvents({
+          contractAddress: resolvedContractAddress,
+          eventNames,
+          keys,
+          fromBlock,
+          toBlock,
+          pageSize,
+          continuationToken,
+          decode
+        }, network);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(page, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error fetching events: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
   // TOKEN TOOLS
   
   // Get token info
@@ -685,77 +1098,64 @@ export function registerTools(server: McpServer) {
       }
     }
   );
-  
-  // Check transaction confirmation status
+
+  // Get token allowance
   server.tool(
-    "check_starknet_transaction_status",
-    "Check if a transaction is confirmed (finalized)",
+    "get_starknet_token_allowance",
+    "Get how much of an owner's ERC20 tokens a spender is allowed to transfer",
     {
-      txHash: z.string().describe("Transaction hash"),
+      tokenAddress: z.string().describe("Token contract address or Starknet ID"),
+      ownerAddress: z.string().describe("Owner's Starknet address or Starknet ID"),
+      spenderAddress: z.string().describe("Spender's Starknet address or Starknet ID"),
       network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
     },
-    async ({ txHash, network = "mainnet" }) => {
+    async ({ tokenAddress, ownerAddress, spenderAddress, network = "mainnet" }) => {
       try {
-        const isConfirmed = await services.isTransactionConfirmed(txHash, network);
+        const allowance = await services.getTokenAllowance(tokenAddress, ownerAddress, spenderAddress, network);
+
         return {
           content: [{
             type: "text",
-            text: JSON.stringify({
-              txHash,
-              isConfirmed
-            }, null, 2)
+            text: JSON.stringify(allowance, null, 2)
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Error checking transaction status: ${error.message || "Unknown error occurred"}`
+            text: `Error fetching token allowance: ${error.message || "Unknown error occurred"}`
           }],
           isError: true
         };
       }
     }
   );
-  
-  // TRANSFER TOOLS
-  
-  // Transfer ETH
+
+  // Audit token allowances
   server.tool(
-    "transfer_starknet_eth",
-    "Transfer ETH from one account to another",
+    "audit_starknet_allowances",
+    "List an owner's non-zero token allowances to well-known spenders (DEX routers, lending markets), unlimited approvals first. Checks the network's main tokens by default; more tokens and spenders can be added.",
     {
-      privateKey: z.string().describe("Private key of the sender account (not stored, only used to sign the transaction)"),
-      from: z.string().describe("Sender's Starknet address"),
-      to: z.string().describe("Recipient's Starknet address or Starknet ID"),
-      amount: z.string().describe("Amount to transfer in ETH (human readable format, not wei)"),
-      maxFee: z.string().optional().describe("Maximum fee to pay (optional)"),
+      ownerAddress: z.string().describe("Owner's Starknet address or Starknet ID"),
+      tokens: z.array(z.string()).optional().describe("Additional token addresses to check"),
+      spenders: z.array(z.string()).optional().describe("Additional spender addresses or Starknet IDs to check"),
       network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
     },
-    async ({ privateKey, from, to, amount, maxFee, network = "mainnet" }) => {
+    async ({ ownerAddress, tokens, spenders, network = "mainnet" }) => {
       try {
-        const result = await services.transferETH({
-          privateKey,
-          from,
-          to,
-          amount, // Will be converted from human-readable ETH to wei internally
-          maxFee
-        }, network);
-        
+        const audit = await services.auditAllowances(ownerAddress, network, { tokens, spenders });
+
         return {
           content: [{
             type: "text",
-            text: JSON.stringify({
-              txHash: result.txHash,
-              message: "Transaction submitted successfully. Use get_starknet_transaction or check_starknet_transaction_status to check status."
-            }, null, 2)
+            text: JSON.stringify(audit, null, 2)
           }]
         };
       } catch (error: any) {
         return {
           content: [{
             type: "text",
-            text: `Error transferring ETH: ${error.message || "Unknown error occurred"}`
+            text: `Error auditing allowances: ${error.message || "Unknown error occurred"}`
           }],
           isError: true
         };
@@ -763,34 +1163,30 @@ export function registerTools(server: McpServer) {
     }
   );
   
-  // Transfer STRK
+  // Check transaction confirmation status
   server.tool(
-    "transfer_starknet_strk",
-    "Transfer STRK from one account to another",
+    "check_starknet_transaction_status",
+    "Check if a transaction is confirmed (finalized) and whether it succeeded, with the decoded revert reason of reverted transactions",
     {
-      privateKey: z.string().describe("Private key of the sender account (not stored, only used to sign the transaction)"),
-      from: z.string().describe("Sender's Starknet address"),
-      to: z.string().describe("Recipient's Starknet address or Starknet ID"),
-      amount: z.string().describe("Amount to transfer in STRK (human readable format, not wei)"),
-      maxFee: z.string().optional().describe("Maximum fee to pay (optional)"),
+      txHash: z.string().describe("Transaction hash"),
       network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
     },
-    async ({ privateKey, from, to, amount, maxFee, network = "mainnet" }) => {
+    async ({ txHash, network = "mainnet" }) => {
       try {
-        const result = await services.transferSTRK({
-          privateKey,
-          from,
-          to,
-          amount, // Will be converted from human-readable STRK to wei internally
-          maxFee
-        }, network);
-        
+        const isConfirmed = await services.isTransactionConfirmed(txHash, network);
+        const status = await services.getTransactionStatus(txHash, network);
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
-              txHash: result.txHash,
-              message: "Transaction submitted successfully. Use get_starknet_transaction or check_starknet_transaction_status to check status."
+              txHash,
+              isConfirmed,
+              finality: status.finality,
+              executionStatus: status.executionStatus,
+              ...(status.revertReason !== undefined && {
+                revertReason: status.revertReason,
+                hint: "Use trace_starknet_transaction to see the call that failed"
+              })
             }, null, 2)
           }]
         };
@@ -798,7 +1194,7 @@ export function registerTools(server: McpServer) {
         return {
           content: [{
             type: "text",
-            text: `Error transferring STRK: ${error.message || "Unknown error occurred"}`
+            text: `Error checking transaction status: ${error.message || "Unknown error occurred"}`
           }],
           isError: true
         };
@@ -806,44 +1202,504 @@ export function registerTools(server: McpServer) {
     }
   );
   
-  // Transfer ERC20 token
+  // Wait for a transaction
   server.tool(
-    "transfer_starknet_token",
-    "Transfer ERC20 tokens from one account to another",
+    "wait_for_starknet_transaction",
+    "Wait until a transaction reaches a finality status (RECEIVED, then ACCEPTED_ON_L2, then ACCEPTED_ON_L1), sending progress notifications as it advances, and return its decoded receipt. Stops early if the transaction is rejected.",
     {
-      privateKey: z.string().describe("Private key of the sender account (not stored, only used to sign the transaction)"),
-      from: z.string().describe("Sender's Starknet address"),
-      to: z.string().describe("Recipient's Starknet address or Starknet ID"),
-      tokenAddress: z.string().describe("Token contract address or Starknet ID"),
-      amount: z.string().describe("Amount to transfer in token's standard units (human readable format, not in smallest unit)"),
-      maxFee: z.string().optional().describe("Maximum fee to pay (optional)"),
+      txHash: z.string().describe("Transaction hash"),
+      targetStatus: z.enum(["RECEIVED", "ACCEPTED_ON_L2", "ACCEPTED_ON_L1"]).optional().describe("Finality status to wait for. Defaults to ACCEPTED_ON_L2; ACCEPTED_ON_L1 can take hours."),
+      timeoutSeconds: z.number().positive().optional().describe("Give up after this many seconds (default 120, max 900)"),
       network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
     },
-    async ({ privateKey, from, to, tokenAddress, amount, maxFee, network = "mainnet" }) => {
+    async ({ txHash, targetStatus, timeoutSeconds, network = "mainnet" }, extra) => {
       try {
-        const result = await services.transferERC20({
+        const result = await services.waitForTransaction(txHash, {
+          ...waitOptions(extra),
+          target: targetStatus,
+          timeoutMs: timeoutSeconds !== undefined ? timeoutSeconds * 1000 : undefined
+        }, network);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, (key, value) =>
+              typeof value === 'bigint' ? services.utils.toFelt(value) : value, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error waiting for transaction: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // ACCOUNT TOOLS
+  
+  // List configured accounts
+  server.tool(
+    "list_starknet_accounts",
+    "List the accounts configured on this server that write tools can sign with (aliases and addresses only, never keys)",
+    {},
+    async () => {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            accounts: services.listAccounts(),
+            privateKeyInputAllowed: services.isPrivateKeyInputAllowed()
+          }, null, 2)
+        }]
+      };
+    }
+  );
+
+  // Get the nonce of an account
+  server.tool(
+    "get_starknet_nonce",
+    "Get the nonce of an account: on-chain in the latest and pending blocks, the nonce this server will use for its next write, and the transactions it submitted that are not accepted yet",
+    {
+      address: z.string().optional().describe("Account address or Starknet ID (or use 'account')"),
+      account: z.string().optional().describe("Alias of a configured account"),
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ address, account, network = "mainnet" }) => {
+      try {
+        if (!address && !account) {
+          throw new Error("Pass an address or a configured account alias");
+        }
+        const resolved = account
+          ? services.getRegisteredAccount(account, network).address
+          : await services.utils.resolveNameOrAddress(address!, network);
+        const nonces = await services.getNonceInfo(resolved, network);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(nonces, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error fetching nonce: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Create a new account
+  server.tool(
+    "create_starknet_account",
+    "Generate a keypair for a new OpenZeppelin, Argent or Braavos account, compute its counterfactual address and store it (encrypted) under an alias. Returns the amount of the fee token to send to the address before calling deploy_starknet_account.",
+    {
+      alias: z.string().describe("Alias to store the account under (letters, digits, '-' and '_'); write tools sign with it via the account argument"),
+      type: z.enum(["openzeppelin", "argent", "braavos"]).optional().describe("Account implementation. Defaults to openzeppelin."),
+      feeToken: feeArgs.feeToken,
+      feeMargin: feeArgs.feeMargin,
+      network: z.string().optional().describe("Network to estimate the deployment fee on (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ alias, type = "openzeppelin", feeToken, feeMargin, network = "mainnet" }) => {
+      try {
+        const created = await services.createAccount({ alias, type, feeToken, feeMargin }, network);
+        const { prefund } = created;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...created,
+              message: prefund.required
+                ? `Send at least ${prefund.requiredFormatted} to ${created.address} on ${network}, then call deploy_starknet_account with account "${alias}".`
+                : `Account created; fund ${created.address} with ${prefund.feeToken} on ${network}, then call deploy_starknet_account with account "${alias}".`
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error creating account: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Get the prefund of a created account
+  server.tool(
+    "get_starknet_account_prefund",
+    "Check how much of the fee token an account created by this server needs to deploy itself, and whether its current balance covers it",
+    {
+      account: z.string().describe("Alias of an account created with create_starknet_account"),
+      feeToken: feeArgs.feeToken,
+      feeMargin: feeArgs.feeMargin,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, feeToken, feeMargin, network = "mainnet" }) => {
+      try {
+        const prefund = await services.estimateAccountPrefund(account, network, { feeToken, feeMargin });
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(prefund, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error estimating account prefund: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Deploy a created account
+  server.tool(
+    "deploy_starknet_account",
+    "Submit the DEPLOY_ACCOUNT transaction of a funded account created with create_starknet_account",
+    {
+      account: z.string().describe("Alias of an account created with create_starknet_account"),
+      ...feeArgs,
+      waitForConfirmation: waitArg,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, waitForConfirmation, network = "mainnet", ...fees }, extra) => {
+      try {
+        const result = await services.deployAccount({ account, ...fees }, network);
+        const outcome = waitForConfirmation
+          ? await settleWait(() => services.waitForTransaction(result.txHash, waitOptions(extra), network))
+          : undefined;
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...result,
+              ...(outcome ?? { message: `Account deployment submitted. Transaction hash: ${result.txHash}` })
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error deploying account: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // SIGNATURE TOOLS
+
+  // SNIP-12 typed data
+  const typedDataArg = z.object({
+    types: z.record(z.array(z.any())).describe("Type definitions, including StarknetDomain (revision 1) or StarkNetDomain (revision 0)"),
+    primaryType: z.string().describe("Name of the type of the message"),
+    domain: z.record(z.any()).describe("Domain: name, version, chainId (defaults to the network's) and revision ('1' for revision 1)"),
+    message: z.record(z.any()).describe("The message to sign")
+  });
+
+  // Sign typed data
+  server.tool(
+    "sign_starknet_typed_data",
+    "Sign a SNIP-12 typed data message (revision 0 or 1) with a configured account, e.g. a login-with-Starknet challenge or an off-chain order. The message hash is computed against the network's chain ID; nothing is sent on-chain.",
+    {
+      account: z.string().describe("Alias of a configured account to sign with (see list_starknet_accounts)"),
+      typedData: typedDataArg.describe("SNIP-12 typed data to sign"),
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, typedData, network = "mainnet" }) => {
+      try {
+        const signed = await services.signTypedData({ account, typedData: typedData as any }, network);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(signed, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [{
+            type: "text",
+            text: `Error signing typed data: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Verify a signature
+  server.tool(
+    "verify_starknet_signature",
+    "Verify a signature by calling the account contract's is_valid_signature, so it works for any wallet type (OpenZeppelin, Argent, Braavos, multisig). Pass the signed SNIP-12 typed data or its message hash. The account must be deployed.",
+    {
+      address: z.string().describe("Address or Starknet ID of the account that signed"),
+      signature: z.array(z.string()).min(1).describe("Signature felts, as returned by the wallet"),
+      typedData: typedDataArg.optional().describe("SNIP-12 typed data that was signed (or use messageHash)"),
+      messageHash: z.string().optional().describe("Message hash that was signed, instead of typedData"),
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ address, signature, typedData, messageHash, network = "mainnet" }) => {
+      try {
+        const verification = await services.verifySignature({ address, signature, typedData: typedData as any, messageHash }, network);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(verification, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error verifying signature: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // TRANSFER TOOLS
+  
+  // Transfer ETH
+  server.tool(
+    "transfer_starknet_eth",
+    "Transfer ETH from one account to another",
+    {
+      ...signerArgs,
+      from: z.string().optional().describe("Sender's Starknet address (required with privateKey, defaults to the account's address)"),
+      to: z.string().describe("Recipient's Starknet address or Starknet ID"),
+      amount: z.string().describe("Amount to transfer in ETH (human readable format, not wei)"),
+      ...feeArgs,
+      ...paymasterArgs,
+      dryRun: z.boolean().optional().describe("Simulate the transaction and return the expected fee, events, balance changes and revert reason without broadcasting it. Defaults to the server's dry-run setting."),
+      waitForConfirmation: waitArg,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, privateKey, from, to, amount, dryRun, waitForConfirmation, network = "mainnet", ...fees }, extra) => {
+      try {
+        const result = await services.transferETH({
+          account,
+          privateKey,
+          from,
+          to,
+          amount, // Will be converted from human-readable ETH to wei internally
+          ...fees,
+          dryRun
+        }, network);
+        
+        return writeResult(result, await confirmWrite(result, waitForConfirmation, extra));
+      } catch (error: any) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [{
+            type: "text",
+            text: `Error transferring ETH: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Transfer STRK
+  server.tool(
+    "transfer_starknet_strk",
+    "Transfer STRK from one account to another",
+    {
+      ...signerArgs,
+      from: z.string().optional().describe("Sender's Starknet address (required with privateKey, defaults to the account's address)"),
+      to: z.string().describe("Recipient's Starknet address or Starknet ID"),
+      amount: z.string().describe("Amount to transfer in STRK (human readable format, not wei)"),
+      ...feeArgs,
+      ...paymasterArgs,
+      dryRun: z.boolean().optional().describe("Simulate the transaction and return the expected fee, events, balance changes and revert reason without broadcasting it. Defaults to the server's dry-run setting."),
+      waitForConfirmation: waitArg,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, privateKey, from, to, amount, dryRun, waitForConfirmation, network = "mainnet", ...fees }, extra) => {
+      try {
+        const result = await services.transferSTRK({
+          account,
+          privateKey,
+          from,
+          to,
+          amount, // Will be converted from human-readable STRK to wei internally
+          ...fees,
+          dryRun
+        }, network);
+        
+        return writeResult(result, await confirmWrite(result, waitForConfirmation, extra));
+      } catch (error: any) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [{
+            type: "text",
+            text: `Error transferring STRK: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Transfer ERC20 token
+  server.tool(
+    "transfer_starknet_token",
+    "Transfer ERC20 tokens from one account to another",
+    {
+      ...signerArgs,
+      from: z.string().optional().describe("Sender's Starknet address (required with privateKey, defaults to the account's address)"),
+      to: z.string().describe("Recipient's Starknet address or Starknet ID"),
+      tokenAddress: z.string().describe("Token contract address or Starknet ID"),
+      amount: z.string().describe("Amount to transfer in token's standard units (human readable format, not in smallest unit)"),
+      ...feeArgs,
+      ...paymasterArgs,
+      dryRun: z.boolean().optional().describe("Simulate the transaction and return the expected fee, events, balance changes and revert reason without broadcasting it. Defaults to the server's dry-run setting."),
+      waitForConfirmation: waitArg,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, privateKey, from, to, tokenAddress, amount, dryRun, waitForConfirmation, network = "mainnet", ...fees }, extra) => {
+      try {
+        const result = await services.transferERC20({
+          account,
           privateKey,
           from,
           to,
           tokenAddress,
           amount, // Will be converted from human-readable token units to smallest units internally
-          maxFee
+          ...fees,
+          dryRun
         }, network);
         
+        return writeResult(result, await confirmWrite(result, waitForConfirmation, extra));
+      } catch (error: any) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
         return {
           content: [{
             type: "text",
-            text: JSON.stringify({
-              txHash: result.txHash,
-              message: "Transaction submitted successfully. Use get_starknet_transaction or check_starknet_transaction_status to check status."
-            }, null, 2)
-          }]
+            text: `Error transferring tokens: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
         };
+      }
+    }
+  );
+
+  // Approve a spender
+  server.tool(
+    "approve_starknet_token",
+    "Approve a spender (e.g. a DEX router) to transfer an account's ERC20 tokens. Use amount 'unlimited' for an unlimited approval (returns a warning) and '0' to revoke.",
+    {
+      ...signerArgs,
+      from: z.string().optional().describe("Owner's Starknet address (required with privateKey, defaults to the account's address)"),
+      token: z.string().describe("Token: ETH, STRK, a token contract address or Starknet ID"),
+      spender: z.string().describe("Spender's Starknet address or Starknet ID"),
+      amount: z.string().describe("Amount to approve in token's standard units (human readable format), or 'unlimited'"),
+      ...feeArgs,
+      ...paymasterArgs,
+      dryRun: z.boolean().optional().describe("Simulate the transaction and return the expected fee, events, balance changes and revert reason without broadcasting it. Defaults to the server's dry-run setting."),
+      waitForConfirmation: waitArg,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, privateKey, from, token, spender, amount, dryRun, waitForConfirmation, network = "mainnet", ...fees }, extra) => {
+      try {
+        const result = await services.approveToken({
+          account,
+          privateKey,
+          from,
+          to: spender,
+          token,
+          amount,
+          ...fees,
+          dryRun
+        }, network);
+        
+        return writeResult(result, await confirmWrite(result, waitForConfirmation, extra));
       } catch (error: any) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
         return {
           content: [{
             type: "text",
-            text: `Error transferring tokens: ${error.message || "Unknown error occurred"}`
+            text: `Error approving tokens: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Transfer tokens using an allowance
+  server.tool(
+    "transfer_from_starknet_token",
+    "Transfer ERC20 tokens from an owner who approved the signing account, to a recipient (transferFrom)",
+    {
+      ...signerArgs,
+      from: z.string().optional().describe("Spender's Starknet address, i.e. the signing account (required with privateKey, defaults to the account's address)"),
+      token: z.string().describe("Token: ETH, STRK, a token contract address or Starknet ID"),
+      owner: z.string().describe("Address or Starknet ID of the owner whose tokens are transferred"),
+      to: z.string().describe("Recipient's Starknet address or Starknet ID"),
+      amount: z.string().describe("Amount to transfer in token's standard units (human readable format, not in smallest unit)"),
+      ...feeArgs,
+      ...paymasterArgs,
+      dryRun: z.boolean().optional().describe("Simulate the transaction and return the expected fee, events, balance changes and revert reason without broadcasting it. Defaults to the server's dry-run setting."),
+      waitForConfirmation: waitArg,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, privateKey, from, token, owner, to, amount, dryRun, waitForConfirmation, network = "mainnet", ...fees }, extra) => {
+      try {
+        const result = await services.transferFromToken({
+          account,
+          privateKey,
+          from,
+          token,
+          owner,
+          to,
+          amount,
+          ...fees,
+          dryRun
+        }, network);
+        
+        return writeResult(result, await confirmWrite(result, waitForConfirmation, extra));
+      } catch (error: any) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [{
+            type: "text",
+            text: `Error transferring tokens from owner: ${error.message || "Unknown error occurred"}`
           }],
           isError: true
         };
@@ -856,39 +1712,301 @@ export function registerTools(server: McpServer) {
     "execute_starknet_contract",
     "Execute a contract call (write operation)",
     {
-      privateKey: z.string().describe("Private key of the sender account (not stored, only used to sign the transaction)"),
-      accountAddress: z.string().describe("Sender's Starknet address"),
+      ...signerArgs,
+      accountAddress: z.string().optional().describe("Sender's Starknet address (required with privateKey, defaults to the account's address)"),
       contractAddress: z.string().describe("Contract address or Starknet ID"),
       entrypoint: z.string().describe("Function name to call"),
-      calldata: z.array(z.string()).optional().describe("Call data array (optional)"),
-      maxFee: z.string().optional().describe("Maximum fee to pay (optional)"),
+      calldata: z.array(z.string()).optional().describe("Raw call data array (optional, instead of args)"),
+      args: namedArgsArg.optional().describe("Arguments encoded using the contract's ABI (instead of calldata): an object keyed by parameter name or an array in declaration order"),
+      ...feeArgs,
+      ...paymasterArgs,
+      dryRun: z.boolean().optional().describe("Simulate the transaction and return the expected fee, events, balance changes and revert reason without broadcasting it. Defaults to the server's dry-run setting."),
+      waitForConfirmation: waitArg,
       network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
     },
-    async ({ privateKey, accountAddress, contractAddress, entrypoint, calldata, maxFee, network = "mainnet" }) => {
+    async ({ account, privateKey, accountAddress, contractAddress, entrypoint, calldata, args, dryRun, waitForConfirmation, network = "mainnet", ...fees }, extra) => {
       try {
         const result = await services.executeContract({
+          account,
           privateKey,
           accountAddress,
           contractAddress,
           entrypoint,
           calldata,
-          maxFee
+          args,
+          ...fees,
+          dryRun
         }, network);
         
+        return writeResult(result, await confirmWrite(result, waitForConfirmation, extra));
+      } catch (error: any) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
         return {
           content: [{
             type: "text",
-            text: JSON.stringify({
-              txHash: result.txHash,
-              message: "Transaction submitted successfully. Use get_starknet_transaction or check_starknet_transaction_status to check status."
+            text: `Error executing contract: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Execute several calls in one transaction
+  server.tool(
+    "execute_starknet_multicall",
+    "Execute several contract calls atomically in a single transaction (e.g. approve + swap, batch payouts)",
+    {
+      ...signerArgs,
+      accountAddress: z.string().optional().describe("Sender's Starknet address (required with privateKey, defaults to the account's address)"),
+      calls: z.array(z.object({
+        contractAddress: z.string().describe("Contract address or Starknet ID"),
+        entrypoint: z.string().describe("Function name to call"),
+        calldata: z.array(z.string()).optional().describe("Raw call data array (optional, instead of args)"),
+        args: namedArgsArg.optional().describe("Arguments encoded using the contract's ABI (instead of calldata), keyed by parameter name or in declaration order")
+      })).min(1).describe("Calls to execute, in order; if any call fails the whole transaction reverts"),
+      ...feeArgs,
+      ...paymasterArgs,
+      dryRun: z.boolean().optional().describe("Simulate the batch and return the expected fee, events, balance changes and revert reason without broadcasting it. Defaults to the server's dry-run setting."),
+      waitForConfirmation: waitArg,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, privateKey, accountAddress, calls, dryRun, waitForConfirmation, network = "mainnet", ...fees }, extra) => {
+      try {
+        const result = await services.executeMulticall({
+          account,
+          privateKey,
+          accountAddress,
+          calls,
+          ...fees,
+          dryRun
+        }, network);
+        
+        return writeResult(result, await confirmWrite(result, waitForConfirmation, extra));
+      } catch (error: any) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [{
+            type: "text",
+            text: `Error executing multicall: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Sign calls for another account to submit
+  server.tool(
+    "build_starknet_outside_execution",
+    "Build and sign a SNIP-9 outside execution: calls of a configured account that another account (a relayer or paymaster) submits with execute_from_outside and pays the gas for. Returns the signed payload and the call that submits it; nothing is sent.",
+    {
+      ...signerArgs,
+      accountAddress: z.string().optional().describe("Signer's Starknet address (required with privateKey, defaults to the account's address)"),
+      calls: z.array(z.object({
+        contractAddress: z.string().describe("Contract address or Starknet ID"),
+        entrypoint: z.string().describe("Function name to call"),
+        calldata: z.array(z.string()).optional().describe("Raw call data array (optional, instead of args)"),
+        args: namedArgsArg.optional().describe("Arguments encoded using the contract's ABI (instead of calldata), keyed by parameter name or in declaration order")
+      })).min(1).describe("Calls to execute from the account, in order"),
+      caller: z.string().optional().describe("Address or Starknet ID allowed to submit the execution, or ANY_CALLER (default)"),
+      validForSeconds: z.number().int().positive().optional().describe("How long the signed execution stays valid, in seconds (default 3600)"),
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, privateKey, accountAddress, calls, caller, validForSeconds, network = "mainnet" }) => {
+      try {
+        const signed = await services.buildOutsideExecution({
+          account,
+          privateKey,
+          accountAddress,
+          calls,
+          caller,
+          validForSeconds
+        }, network);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(signed, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
+        return {
+          content: [{
+            type: "text",
+            text: `Error building outside execution: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // Estimate the fee of a transaction
+  server.tool(
+    "estimate_starknet_fee",
+    "Quote the fee of a transfer, contract invoke, multicall, class declaration or account deployment in both ETH and STRK, with gas consumed, gas prices and L1 data gas in human-readable units. Only the sender address is needed: validation is skipped, so no key is required.",
+    {
+      type: z.enum(["transfer", "invoke", "declare", "deploy_account"]).describe("Kind of transaction to estimate"),
+      senderAddress: z.string().optional().describe("Sender's Starknet address or Starknet ID (or use 'account')"),
+      account: z.string().optional().describe("Alias of a configured account to estimate for; for deploy_account, an account created with create_starknet_account"),
+      token: z.string().optional().describe("transfer: token to send, ETH, STRK or a token address (defaults to ETH)"),
+      to: z.string().optional().describe("transfer: recipient address or Starknet ID"),
+      amount: z.string().optional().describe("transfer: amount in human-readable units (e.g., '1.5')"),
+      calls: z.array(z.object({
+        contractAddress: z.string().describe("Contract address or Starknet ID"),
+        entrypoint: z.string().describe("Function name to call"),
+        calldata: z.array(z.string()).optional().describe("Raw call data array (optional, instead of args)"),
+        args: namedArgsArg.optional().describe("Arguments encoded using the contract's ABI (instead of calldata), keyed by parameter name or in declaration order")
+      })).optional().describe("invoke: calls to execute in one transaction"),
+      contractClassPath: z.string().optional().describe("declare: path to the Sierra contract class (*.contract_class.json)"),
+      compiledClassPath: z.string().optional().describe("declare: path to the compiled CASM class (*.compiled_contract_class.json)"),
+      classHash: z.string().optional().describe("deploy_account: class hash of the account contract (instead of a created account alias)"),
+      constructorCalldata: z.array(z.string()).optional().describe("deploy_account: constructor calldata, e.g. the public key"),
+      salt: z.string().optional().describe("deploy_account: address salt (defaults to 0x0)"),
+      feeMargin: feeArgs.feeMargin,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ network = "mainnet", ...params }) => {
+      try {
+        const report = await services.estimateTransactionFee(params, network);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(report, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error estimating fee: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+
+  // DEPLOYMENT TOOLS
+  
+  // Declare a class
+  server.tool(
+    "declare_starknet_class",
+    "Declare a Cairo contract class from local Scarb artifacts (.contract_class.json and .compiled_contract_class.json). Does nothing if the class is already declared.",
+    {
+      ...signerArgs,
+      accountAddress: z.string().optional().describe("Sender's Starknet address (required with privateKey, defaults to the account's address)"),
+      contractClassPath: z.string().describe("Path to the Sierra artifact (<package>_<contract>.contract_class.json)"),
+      compiledClassPath: z.string().describe("Path to the CASM artifact (<package>_<contract>.compiled_contract_class.json)"),
+      ...feeArgs,
+      dryRun: z.boolean().optional().describe("Simulate the declaration and return the expected fee without broadcasting it. Defaults to the server's dry-run setting."),
+      waitForConfirmation: waitArg,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, privateKey, accountAddress, contractClassPath, compiledClassPath, dryRun, waitForConfirmation, network = "mainnet", ...fees }, extra) => {
+      try {
+        const result = await services.declareClass({
+          account,
+          privateKey,
+          accountAddress,
+          contractClassPath,
+          compiledClassPath,
+          ...fees,
+          dryRun
+        }, network);
+        
+        const txHash = "dryRun" in result ? null : result.txHash;
+        const outcome = waitForConfirmation && txHash
+          ? await settleWait(() => services.waitForTransaction(txHash, waitOptions(extra), network))
+          : undefined;
+        
+        const message = "dryRun" in result || outcome
+          ? undefined
+          : result.alreadyDeclared
+            ? `Class ${result.classHash} is already declared on ${network}`
+            : `Declaration submitted. Transaction hash: ${result.txHash}`;
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(message ? { ...result, message } : outcome ? { ...result, ...outcome } : result, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        return {
+          content: [{
+            type: "text",
+            text: `Error declaring class: ${error.message || "Unknown error occurred"}`
+          }],
+          isError: true
+        };
+      }
+    }
+  );
+  
+  // Deploy a contract
+  server.tool(
+    "deploy_starknet_contract",
+    "Deploy an instance of a declared class through the Universal Deployer Contract. Constructor arguments are encoded against the class ABI.",
+    {
+      ...signerArgs,
+      accountAddress: z.string().optional().describe("Sender's Starknet address (required with privateKey, defaults to the account's address)"),
+      classHash: z.string().describe("Class hash of the declared class"),
+      constructorArgs: namedArgsArg.optional().describe("Constructor arguments, as an array in declaration order or an object keyed by argument name (e.g. {\"owner\": \"0x...\", \"supply\": \"1000\"}); structs, enums, u256 and ByteArray strings are encoded from the ABI"),
+      constructorCalldata: z.array(z.string()).optional().describe("Raw constructor calldata as felts, instead of constructorArgs"),
+      salt: z.string().optional().describe("Deployment salt (random by default); fixes the resulting address"),
+      unique: z.boolean().optional().describe("Derive the address from the deployer address as well as the salt. Defaults to true."),
+      ...feeArgs,
+      ...paymasterArgs,
+      dryRun: z.boolean().optional().describe("Simulate the deployment and return the expected address, fee, events and revert reason without broadcasting it. Defaults to the server's dry-run setting."),
+      waitForConfirmation: waitArg,
+      network: z.string().optional().describe("Network name (e.g., 'mainnet', 'sepolia'). Defaults to Mainnet.")
+    },
+    async ({ account, privateKey, accountAddress, classHash, constructorArgs, constructorCalldata, salt, unique, dryRun, waitForConfirmation, network = "mainnet", ...fees }, extra) => {
+      try {
+        const result = await services.deployContract({
+          account,
+          privateKey,
+          accountAddress,
+          classHash,
+          constructorArgs,
+          constructorCalldata,
+          salt,
+          unique,
+          ...fees,
+          dryRun
+        }, network);
+        
+        const outcome = waitForConfirmation && !("dryRun" in result)
+          ? await settleWait(() => services.waitForTransaction(result.txHash, waitOptions(extra), network))
+          : undefined;
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify("dryRun" in result ? result : {
+              ...result,
+              ...(outcome ?? { message: `Deployment submitted. Contract address: ${result.address}, transaction hash: ${result.txHash}` })
             }, null, 2)
           }]
         };
       } catch (error: any) {
+        if (error instanceof services.PolicyViolationError) {
+          return policyViolationResult(error);
+        }
         return {
           content: [{
             type: "text",
-            text: `Error executing contract: ${error.message || "Unknown error occurred"}`
+            text: `Error deploying contract: ${error.message || "Unknown error occurred"}`
           }],
           isError: true
         };
@@ -1,6 +1,7 @@
 import { config } from "dotenv";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import startServer from "./server.js";
+import { getServerPolicy } from "./policy.js";
 import express, { Request, Response } from "express";
 import cors from "cors";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
@@ -169,7 +170,8 @@ app.get("/", (req: Request, res: Response) => {
       health: "/health"
     },
     status: server ? "ready" : "initializing",
-    activeConnections: connections.size
+    activeConnections: connections.size,
+    policy: getServerPolicy()
   });
 });
 
@@ -0,0 +1,160 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getConfig } from "../core/config.js";
+
+/**
+ * Tools that sign or submit transactions; skipped entirely in read-only mode
+ */
+export const WRITE_TOOLS = new Set([
+  "transfer_starknet_eth",
+  "transfer_starknet_strk",
+  "transfer_starknet_token",
+  "approve_starknet_token",
+  "transfer_from_starknet_token",
+  "execute_starknet_contract",
+  "execute_starknet_multicall",
+  "create_starknet_account",
+  "deploy_starknet_account",
+  "declare_starknet_class",
+  "deploy_starknet_contract",
+  "sign_starknet_typed_data",
+  "build_starknet_outside_execution"
+]);
+
+type RegistrationKind = "tool" | "resource" | "prompt";
+
+/**
+ * Which tools, resources and prompts the server exposes
+ */
+export interface ServerPolicy {
+  readOnly: boolean;
+  // Name patterns to expose ('*' wildcards allowed); null exposes everything
+  allow: string[] | null;
+  // Name patterns to hide, applied after the allowlist
+  deny: string[];
+  // Names skipped during registration
+  disabled: Record<"tools" | "resources" | "prompts", string[]>;
+}
+
+// Policy in effect for this process
+let activePolicy: ServerPolicy | null = null;
+
+/**
+ * Split a comma-separated list, dropping empty entries
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Read a `--name=value` or `--name value` CLI option
+ */
+function readCliOption(argv: string[], name: string): string | undefined {
+  const index = argv.findIndex(arg => arg === `--${name}` || arg.startsWith(`--${name}=`));
+  if (index === -1) return undefined;
+
+  const arg = argv[index];
+  return arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : argv[index + 1];
+}
+
+/**
+ * Build the server policy from CLI flags, environment variables and the config file
+ * CLI flags take precedence over environment variables, which take precedence over the
+ * config file. Read-only mode is on if any source turns it on.
+ *
+ * CLI: --read-only, --allow=a,b, --deny=a,b
+ * Env: STARKNET_MCP_READ_ONLY=true, STARKNET_MCP_ALLOW=a,b, STARKNET_MCP_DENY=a,b
+ * Config: policy: { readOnly, allow, deny }
+ * @param argv Command line arguments
+ * @returns The resolved policy
+ */
+export function resolveServerPolicy(argv: string[] = process.argv.slice(2)): ServerPolicy {
+  const filePolicy = getConfig().policy ?? {};
+
+  const readOnly = argv.includes("--read-only")
+    || process.env.STARKNET_MCP_READ_ONLY === "true"
+    || filePolicy.readOnly === true;
+
+  const allow = parseList(readCliOption(argv, "allow"))
+    ?? parseList(process.env.STARKNET_MCP_ALLOW)
+    ?? filePolicy.allow
+    ?? null;
+
+  const deny = parseList(readCliOption(argv, "deny"))
+    ?? parseList(process.env.STARKNET_MCP_DENY)
+    ?? filePolicy.deny
+    ?? [];
+
+  return {
+    readOnly,
+    allow,
+    deny,
+    disabled: { tools: [], resources: [], prompts: [] }
+  };
+}
+
+/**
+ * Match a name against a pattern where '*' matches any run of characters
+ */
+function matchesPattern(name: string, pattern: string): boolean {
+  const regex = new RegExp(`^${pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`);
+  return regex.test(name);
+}
+
+/**
+ * Check whether a tool, resource or prompt may be registered under a policy
+ * @param policy The server policy
+ * @param kind What is being registered
+ * @param name The registration name
+ * @returns True if it should be exposed
+ */
+export function isAllowed(policy: ServerPolicy, kind: RegistrationKind, name: string): boolean {
+  if (kind === "tool" && policy.readOnly && WRITE_TOOLS.has(name)) {
+    return false;
+  }
+
+  if (policy.allow && !policy.allow.some(pattern => matchesPattern(name, pattern))) {
+    return false;
+  }
+
+  return !policy.deny.some(pattern => matchesPattern(name, pattern));
+}
+
+/**
+ * Wrap an MCP server so tool, resource and prompt registrations are filtered by a policy
+ * Skipped names are recorded on the policy so they can be reported.
+ * @param server The MCP server
+ * @param policy The policy to enforce
+ * @returns A server whose registration methods honour the policy
+ */
+export function applyPolicy(server: McpServer, policy: ServerPolicy): McpServer {
+  activePolicy = policy;
+
+  const disabledKey = { tool: "tools", resource: "resources", prompt: "prompts" } as const;
+
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === "tool" || prop === "resource" || prop === "prompt") {
+        const register = Reflect.get(target, prop, receiver) as (...args: unknown[]) => unknown;
+
+        return (name: string, ...rest: unknown[]) => {
+          if (!isAllowed(policy, prop, name)) {
+            policy.disabled[disabledKey[prop]].push(name);
+            return undefined;
+          }
+          return register.call(target, name, ...rest);
+        };
+      }
+
+      return Reflect.get(target, prop, receiver);
+    }
+  });
+}
+
+/**
+ * Get the policy in effect, if the server has been started
+ * @returns The active policy or null
+ */
+export function getServerPolicy(): ServerPolicy | null {
+  return activePolicy;
+}
@@ -2,23 +2,37 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerResources } from "../core/resources.js";
 import { registerTools } from "../core/tools.js";
 import { registerPrompts } from "../core/prompts.js";
+import { initializeNetworks } from "../core/chains.js";
+import { initializeAccounts } from "../core/services/index.js";
+import { applyPolicy, resolveServerPolicy } from "./policy.js";
 
 // Create and start the MCP server
 async function startServer() {
   try {
+    // Load user-defined networks and verify their chain IDs
+    await initializeNetworks();
+
+    // Unlock configured accounts from their keystores
+    await initializeAccounts();
+
     // Create a new MCP server instance
     const server = new McpServer({
       name: "MCP Server",
       version: "1.0.0"
     });
 
-    // Register all resources, tools, and prompts
-    registerResources(server);
-    registerTools(server);
-    registerPrompts(server);
+    // Register resources, tools, and prompts allowed by the read-only and allow/deny policy
+    const policy = resolveServerPolicy();
+    const filteredServer = applyPolicy(server, policy);
+    registerResources(filteredServer);
+    registerTools(filteredServer);
+    registerPrompts(filteredServer);
     
     // Log server information
     console.error(`MCP Server initialized`);
+    if (policy.readOnly) {
+      console.error("Read-only mode: write tools are disabled");
+    }
     console.error("Server is ready to handle requests");
     
     return server;